@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getChatCompletion, ChatMessage, ChartContext } from "@/lib/llm/openaiClient";
+import { getChatCompletion, ChatMessage, ChartContext, LLMSelection } from "@/lib/llm/openaiClient";
+import { getLLMProvider, listLLMProviders } from "@/lib/llm/providers";
+import { MISSING_API_KEY_RESPONSE } from "@/lib/llm/missingKeyResponse";
 
 // Force Node.js runtime (not Edge) for better compatibility
 export const runtime = "nodejs";
@@ -21,9 +23,10 @@ export async function OPTIONS() {
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { messages, chartContext } = body as {
+        const { messages, chartContext, llm } = body as {
             messages: ChatMessage[];
             chartContext: ChartContext;
+            llm?: LLMSelection;
         };
 
         // Validate request
@@ -34,77 +37,35 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Provider can be picked per request (llm.provider) or via LLM_PROVIDER
+        const provider = getLLMProvider(llm?.provider, { model: llm?.model, temperature: llm?.temperature });
+        if (!provider) {
+            return NextResponse.json(
+                { error: "Unknown LLM provider", details: `Expected one of: ${listLLMProviders().join(", ")}` },
+                { status: 400, headers: corsHeaders() }
+            );
+        }
+
         // Check for API key
-        if (!process.env.DEEPSEEK_API_KEY) {
+        if (!provider.isConfigured()) {
             // Return a mock response for development
-            return NextResponse.json({
-                message: {
-                    role: "assistant",
-                    content: `I see you're asking about trading concepts! 
-
-To enable the full AI experience, please add your DeepSeek API key to the \`.env.local\` file:
-
-\`\`\`
-DEEPSEEK_API_KEY=your_key_here
-\`\`\`
-
-In the meantime, you can explore the chart manually using the controls above. Try:
-• Click the **MACD**, **RSI**, or **EMA** buttons to add indicators
-• Change the **symbol** or **timeframe** to explore different charts
-• Use the chart's built-in zoom and pan features`,
-                },
-                lessonOptions: [
-                    {
-                        id: "add-macd",
-                        title: "Add MACD Indicator",
-                        description: "Display the MACD indicator on the chart",
-                        actions: [
-                            {
-                                type: "ADD_INDICATOR",
-                                indicator: "MACD",
-                                params: { fast: 12, slow: 26, signal: 9 },
-                            },
-                        ],
-                    },
-                    {
-                        id: "add-rsi",
-                        title: "Add RSI Indicator",
-                        description: "Display the RSI indicator on the chart",
-                        actions: [
-                            {
-                                type: "ADD_INDICATOR",
-                                indicator: "RSI",
-                                params: { period: 14 },
-                            },
-                        ],
-                    },
-                    {
-                        id: "add-ema",
-                        title: "Add EMA Overlay",
-                        description: "Display a 20-period EMA on the price chart",
-                        actions: [
-                            {
-                                type: "ADD_INDICATOR",
-                                indicator: "EMA",
-                                params: { period: 20 },
-                            },
-                        ],
-                    },
-                ],
-                actions: [],
-            }, { headers: corsHeaders() });
+            return NextResponse.json(MISSING_API_KEY_RESPONSE, { headers: corsHeaders() });
         }
 
         // Get completion from LLM
-        const result = await getChatCompletion(messages, chartContext);
+        const result = await getChatCompletion(messages, chartContext, provider);
 
         // Log for observability
         console.log("[Chat API]", {
             timestamp: new Date().toISOString(),
+            provider: provider.name,
+            model: provider.model,
             messagesCount: messages.length,
             hasActions: !!result.actions?.length,
             actionsCount: result.actions?.length || 0,
             hasLessonOptions: !!result.lessonOptions?.length,
+            repairedActions: result.actionIssues?.filter((i) => i.status === "repaired").length || 0,
+            rejectedActions: result.actionIssues?.filter((i) => i.status === "rejected").length || 0,
         });
 
         return NextResponse.json(result, { headers: corsHeaders() });
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { streamChatCompletion, ChatMessage, ChartContext, LLMSelection } from "@/lib/llm/openaiClient";
+import { getLLMProvider, listLLMProviders } from "@/lib/llm/providers";
+import { MISSING_API_KEY_RESPONSE } from "@/lib/llm/missingKeyResponse";
+
+// Force Node.js runtime (not Edge) for better compatibility
+export const runtime = "nodejs";
+// Streams are per-request and must never be statically cached
+export const dynamic = "force-dynamic";
+
+// Helper to add CORS headers
+function corsHeaders() {
+    return {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+    };
+}
+
+// Handle OPTIONS for CORS preflight
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders() });
+}
+
+/**
+ * Streaming chat over Server-Sent Events. Takes the same body as /api/chat and emits:
+ * - `text` { delta }: a fragment of the assistant's reply
+ * - `action` { action }: a validated chart action, as soon as it is complete
+ * - `tool` { name }: an analysis tool is running
+ * - `done` { message, lessonOptions, actionIssues }: the full reply, and the
+ *   actions that were repaired or rejected
+ * - `error` { message }
+ */
+export async function POST(request: NextRequest) {
+    let messages: ChatMessage[];
+    let chartContext: ChartContext;
+    let llm: LLMSelection | undefined;
+    try {
+        ({ messages, chartContext, llm } = (await request.json()) as {
+            messages: ChatMessage[];
+            chartContext: ChartContext;
+            llm?: LLMSelection;
+        });
+    } catch (error) {
+        return NextResponse.json(
+            { error: "Invalid request body", details: String(error) },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
+
+    // Validate request
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+        return NextResponse.json(
+            { error: "Messages array is required" },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
+
+    // Provider can be picked per request (llm.provider) or via LLM_PROVIDER
+    const provider = getLLMProvider(llm?.provider, { model: llm?.model, temperature: llm?.temperature });
+    if (!provider) {
+        return NextResponse.json(
+            { error: "Unknown LLM provider", details: `Expected one of: ${listLLMProviders().join(", ")}` },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
+
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: string, data: unknown) => {
+                if (abort.signal.aborted) return;
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+
+            request.signal.addEventListener("abort", () => abort.abort());
+
+            try {
+                // Without an API key, send the setup instructions as a single reply
+                if (!provider.isConfigured()) {
+                    send("text", { delta: MISSING_API_KEY_RESPONSE.message.content });
+                    send("done", MISSING_API_KEY_RESPONSE);
+                    return;
+                }
+
+                let actionsCount = 0;
+                const result = await streamChatCompletion(
+                    messages,
+                    chartContext,
+                    provider,
+                    {
+                        onText: (delta) => send("text", { delta }),
+                        onAction: (action) => {
+                            actionsCount++;
+                            send("action", { action });
+                        },
+                        onToolCall: (name) => send("tool", { name }),
+                    },
+                    abort.signal
+                );
+
+                send("done", {
+                    message: result.message,
+                    lessonOptions: result.lessonOptions,
+                    actionIssues: result.actionIssues,
+                });
+
+                // Log for observability
+                console.log("[Chat API]", {
+                    timestamp: new Date().toISOString(),
+                    streamed: true,
+                    provider: provider.name,
+                    model: provider.model,
+                    messagesCount: messages.length,
+                    actionsCount,
+                    hasLessonOptions: !!result.lessonOptions?.length,
+                    repairedActions: result.actionIssues?.filter((i) => i.status === "repaired").length || 0,
+                    rejectedActions: result.actionIssues?.filter((i) => i.status === "rejected").length || 0,
+                });
+            } catch (error) {
+                if (!abort.signal.aborted) {
+                    console.error("[Chat API Error]", error);
+                    send("error", { message: "Failed to process chat request" });
+                }
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the client
+                }
+            }
+        },
+        cancel() {
+            abort.abort();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            ...corsHeaders(),
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
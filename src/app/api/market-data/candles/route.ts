@@ -1,30 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Candle } from "@/lib/schema/chartActions";
+import { MarketDataResponse, TimeframeSchema } from "@/lib/schema/chartActions";
+import { getMarketDataProvider, listMarketDataProviders } from "@/lib/market";
+import { getCachedCandles } from "@/lib/market/candleCache";
 
 // Force Node.js runtime (not Edge) for better compatibility
 export const runtime = "nodejs";
 
-// Binance API endpoints (with fallbacks)
-const BINANCE_APIS = [
-    "https://api.binance.com/api/v3",
-    "https://api1.binance.com/api/v3",
-    "https://api2.binance.com/api/v3",
-    "https://api3.binance.com/api/v3",
-];
+// Upper bound on candles per request; providers page through their own limits
+const MAX_LIMIT = 5000;
 
-// Timeframe mapping to Binance interval format
-const timeframeToInterval: Record<string, string> = {
-    "1h": "1h",
-    "4h": "4h",
-    "1d": "1d",
-};
+// Parse an optional unix-seconds query param (NaN when malformed)
+function parseTime(value: string | null): number | undefined {
+    if (value === null || value === "") return undefined;
+    return Number.isFinite(Number(value)) ? Math.floor(Number(value)) : NaN;
+}
 
 // Helper to add CORS headers
 function corsHeaders() {
     return {
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "GET, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type",
+        "Access-Control-Allow-Headers": "Content-Type, If-None-Match",
+        "Access-Control-Expose-Headers": "ETag, X-Cache",
     };
 }
 
@@ -36,67 +33,62 @@ export async function OPTIONS() {
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const symbol = searchParams.get("symbol") || "BTCUSDT";
-    const timeframe = searchParams.get("timeframe") || "1d";
-    const limit = Math.min(parseInt(searchParams.get("limit") || "500"), 1000);
-
-    const interval = timeframeToInterval[timeframe] || "1d";
-
-    // Try each API endpoint until one works
-    let lastError: Error | null = null;
-
-    for (const apiBase of BINANCE_APIS) {
-        try {
-            const url = `${apiBase}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
-            console.log(`[Market Data] Fetching from: ${apiBase}`);
-
-            const response = await fetch(url, {
-                headers: {
-                    "User-Agent": "Tradecraft/1.0",
-                },
-                // Don't use Next.js caching on Vercel to avoid issues
-                cache: "no-store",
-            });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error(`[Market Data] ${apiBase} failed: ${response.status} - ${errorText}`);
-                lastError = new Error(`Binance API error: ${response.status}`);
-                continue;
-            }
-
-            const data = await response.json();
-
-            // Transform Binance klines to our Candle format
-            const candles: Candle[] = data.map((kline: (string | number)[]) => ({
-                time: Math.floor(Number(kline[0]) / 1000),
-                open: parseFloat(kline[1] as string),
-                high: parseFloat(kline[2] as string),
-                low: parseFloat(kline[3] as string),
-                close: parseFloat(kline[4] as string),
-                volume: parseFloat(kline[5] as string),
-            }));
+    const requestedTimeframe = searchParams.get("timeframe") || "1d";
+    const from = parseTime(searchParams.get("from"));
+    const to = parseTime(searchParams.get("to"));
+
+    if (Number.isNaN(from) || Number.isNaN(to) || (from !== undefined && to !== undefined && from > to)) {
+        return NextResponse.json(
+            { error: "Invalid range", details: "from/to must be unix seconds with from <= to" },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
 
-            console.log(`[Market Data] Success: ${candles.length} candles from ${apiBase}`);
+    // A closed range defaults to as much of it as we allow; otherwise 500 candles
+    const defaultLimit = from !== undefined && to !== undefined ? MAX_LIMIT : 500;
+    const limit = Math.min(parseInt(searchParams.get("limit") || String(defaultLimit)), MAX_LIMIT);
+
+    // Provider can be picked per request (?provider=local) or via MARKET_DATA_PROVIDER
+    const provider = getMarketDataProvider(searchParams.get("provider"));
+    if (!provider) {
+        return NextResponse.json(
+            {
+                error: "Unknown market data provider",
+                details: `Expected one of: ${listMarketDataProviders().join(", ")}`,
+            },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
 
-            return NextResponse.json(
-                { symbol, timeframe, candles },
-                { headers: corsHeaders() }
-            );
-        } catch (error) {
-            console.error(`[Market Data] ${apiBase} exception:`, error);
-            lastError = error as Error;
-            continue;
+    // Any registry timeframe works; non-native ones are resampled by the provider
+    const parsedTimeframe = TimeframeSchema.safeParse(requestedTimeframe);
+    const timeframe = parsedTimeframe.success ? parsedTimeframe.data : "1d";
+
+    try {
+        const cached = await getCachedCandles(provider, { symbol, timeframe, limit, from, to });
+        const headers = {
+            ...corsHeaders(),
+            "X-Market-Data-Provider": provider.name,
+            "X-Cache": cached.status,
+            ETag: cached.etag,
+            "Cache-Control": `public, max-age=${cached.maxAge}, stale-while-revalidate=${cached.staleWhileRevalidate}`,
+        };
+
+        // Let clients revalidate without re-downloading unchanged candles
+        if (request.headers.get("if-none-match") === cached.etag) {
+            return new NextResponse(null, { status: 304, headers });
         }
-    }
 
-    // All endpoints failed
-    console.error("[Market Data] All Binance endpoints failed:", lastError?.message);
-    return NextResponse.json(
-        {
-            error: "Failed to fetch market data from all endpoints",
-            details: lastError?.message,
-        },
-        { status: 500, headers: corsHeaders() }
-    );
+        const body: MarketDataResponse = { symbol, timeframe, candles: cached.candles };
+        return NextResponse.json(body, { headers });
+    } catch (error) {
+        console.error(`[Market Data] ${provider.name} failed:`, error);
+        return NextResponse.json(
+            {
+                error: "Failed to fetch market data from all endpoints",
+                details: (error as Error).message,
+            },
+            { status: 500, headers: corsHeaders() }
+        );
+    }
 }
-
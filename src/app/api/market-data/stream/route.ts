@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TimeframeSchema } from "@/lib/schema/chartActions";
+import { getMarketDataProvider, listMarketDataProviders } from "@/lib/market";
+import { subscribeCandleUpdates } from "@/lib/market/candleStream";
+
+// Force Node.js runtime (not Edge) for better compatibility
+export const runtime = "nodejs";
+// Streams are per-connection and must never be statically cached
+export const dynamic = "force-dynamic";
+
+// Comment line sent periodically so proxies don't drop idle connections
+const HEARTBEAT_MS = 15000;
+
+// Helper to add CORS headers
+function corsHeaders() {
+    return {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+    };
+}
+
+// Handle OPTIONS for CORS preflight
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders() });
+}
+
+/**
+ * Server-Sent Events stream of kline updates.
+ * Emits `candle` events with { candle, closed } and `error` events with { message }.
+ */
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const symbol = searchParams.get("symbol") || "BTCUSDT";
+    const requestedTimeframe = searchParams.get("timeframe") || "1d";
+    const fromParam = searchParams.get("from");
+    const from = fromParam ? Math.floor(Number(fromParam)) : undefined;
+
+    const provider = getMarketDataProvider(searchParams.get("provider"));
+    if (!provider) {
+        return NextResponse.json(
+            {
+                error: "Unknown market data provider",
+                details: `Expected one of: ${listMarketDataProviders().join(", ")}`,
+            },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
+
+    if (from !== undefined && !Number.isFinite(from)) {
+        return NextResponse.json(
+            { error: "Invalid replay start", details: "from must be unix seconds" },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
+
+    const parsedTimeframe = TimeframeSchema.safeParse(requestedTimeframe);
+    const timeframe = parsedTimeframe.success ? parsedTimeframe.data : "1d";
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (event: string, data: unknown) => {
+                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+
+            const unsubscribe = subscribeCandleUpdates(
+                provider,
+                { symbol, timeframe, from },
+                (update) => send("candle", update),
+                (error) => send("error", { message: error.message })
+            );
+            const heartbeat = setInterval(() => {
+                controller.enqueue(encoder.encode(": heartbeat\n\n"));
+            }, HEARTBEAT_MS);
+
+            cleanup = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+            };
+
+            request.signal.addEventListener("abort", () => {
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the client
+                }
+            });
+
+            console.log(`[Market Data] Stream opened: ${provider.name} ${symbol} ${timeframe}`);
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            ...corsHeaders(),
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMarketDataProvider, listMarketDataProviders } from "@/lib/market";
+
+// Force Node.js runtime (not Edge) for better compatibility
+export const runtime = "nodejs";
+
+// Helper to add CORS headers
+function corsHeaders() {
+    return {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+    };
+}
+
+// Handle OPTIONS for CORS preflight
+export async function OPTIONS() {
+    return NextResponse.json({}, { headers: corsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+    const provider = getMarketDataProvider(request.nextUrl.searchParams.get("provider"));
+    if (!provider) {
+        return NextResponse.json(
+            {
+                error: "Unknown market data provider",
+                details: `Expected one of: ${listMarketDataProviders().join(", ")}`,
+            },
+            { status: 400, headers: corsHeaders() }
+        );
+    }
+
+    try {
+        const symbols = await provider.listSymbols();
+        return NextResponse.json(
+            {
+                provider: provider.name,
+                symbols,
+                timeframes: provider.supportedTimeframes(),
+            },
+            { headers: corsHeaders() }
+        );
+    } catch (error) {
+        console.error(`[Market Data] ${provider.name} symbol listing failed:`, error);
+        return NextResponse.json(
+            { error: "Failed to list symbols", details: (error as Error).message },
+            { status: 500, headers: corsHeaders() }
+        );
+    }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createFileSessionStore } from "@/lib/sessions/fileStore";
+import { ChatSessionSchema, SessionIdSchema } from "@/lib/sessions/types";
+
+// Force Node.js runtime (not Edge) for better compatibility
+export const runtime = "nodejs";
+
+// Same-origin only: no CORS headers, so other sites can't read or change saved sessions
+const store = createFileSessionStore();
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function invalidId() {
+    return NextResponse.json(
+        { error: "Invalid session id", details: "Use letters, digits, '-' and '_' (at most 64)" },
+        { status: 400 }
+    );
+}
+
+function notFound() {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+    if (!SessionIdSchema.safeParse(id).success) return invalidId();
+
+    const session = await store.get(id);
+    if (!session) return notFound();
+    return NextResponse.json({ session });
+}
+
+// Create or replace a session
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+    if (!SessionIdSchema.safeParse(id).success) return invalidId();
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = ChatSessionSchema.safeParse(body);
+    if (!parsed.success || parsed.data.id !== id) {
+        return NextResponse.json(
+            {
+                error: "Invalid session",
+                details: parsed.success
+                    ? "Session id does not match the URL"
+                    : parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+            },
+            { status: 400 }
+        );
+    }
+
+    try {
+        await store.save(parsed.data);
+        return NextResponse.json({ ok: true });
+    } catch (error) {
+        console.error(`[Sessions API] Saving ${id} failed:`, error);
+        return NextResponse.json(
+            { error: "Failed to save session", details: (error as Error).message },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    const { id } = await params;
+    if (!SessionIdSchema.safeParse(id).success) return invalidId();
+
+    try {
+        return (await store.remove(id)) ? NextResponse.json({ ok: true }) : notFound();
+    } catch (error) {
+        console.error(`[Sessions API] Deleting ${id} failed:`, error);
+        return NextResponse.json(
+            { error: "Failed to delete session", details: (error as Error).message },
+            { status: 500 }
+        );
+    }
+}
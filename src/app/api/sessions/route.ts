@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { createFileSessionStore } from "@/lib/sessions/fileStore";
+
+// Force Node.js runtime (not Edge) for better compatibility
+export const runtime = "nodejs";
+
+// Same-origin only: no CORS headers, so other sites can't read or change saved sessions
+const store = createFileSessionStore();
+
+export async function GET() {
+    try {
+        const sessions = await store.list();
+        return NextResponse.json({ sessions });
+    } catch (error) {
+        console.error("[Sessions API] Listing failed:", error);
+        return NextResponse.json(
+            { error: "Failed to list sessions", details: (error as Error).message },
+            { status: 500 }
+        );
+    }
+}
@@ -1,14 +1,32 @@
 "use client";
 
+import { use, useEffect, useMemo } from "react";
 import { ChatPanel } from "@/components/ChatPanel";
 import { ChartPanel } from "@/components/ChartPanel";
 import { ChartProvider } from "@/context/ChartContext";
+import { CHART_LINK_PARAM, decodeChartLink } from "@/lib/chartLink";
+
+export default function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  // A shared link (?chart=...) is rebuilt by replaying its chart actions
+  const link = use(searchParams)[CHART_LINK_PARAM];
+  const initialActions = useMemo(
+    () => (typeof link === "string" ? (decodeChartLink(link) ?? undefined) : undefined),
+    [link]
+  );
+
+  // Drop the applied link from the address bar, so a reload resumes the session started from it
+  useEffect(() => {
+    if (link !== undefined) window.history.replaceState(null, "", window.location.pathname);
+  }, [link]);
 
-export default function Home() {
   return (
-    <ChartProvider>
+    <ChartProvider initialActions={initialActions}>
       <div className="split-pane">
-        <ChatPanel />
+        <ChatPanel resumeLastSession={!initialActions} />
         <ChartPanel />
       </div>
     </ChartProvider>
@@ -15,22 +15,304 @@ import {
     SeriesMarker,
     createSeriesMarkers,
     ISeriesMarkersPluginApi,
+    IPriceLine,
+    LineStyle,
+    MouseEventParams,
 } from "lightweight-charts";
 import { useChart } from "@/context/ChartContext";
-import { calculateEMA, calculateMACD, calculateRSI } from "@/lib/indicators";
+import {
+    Candle,
+    DrawingPoint,
+    HighlightPoint,
+    HighlightRegion,
+    IndicatorConfig,
+    IndicatorType,
+    MarketStructureConfig,
+} from "@/lib/schema/chartActions";
+import {
+    BandValues,
+    IndicatorDefinition,
+    IndicatorOutput,
+    IndicatorValues,
+    getIndicatorDefinition,
+} from "@/lib/indicatorRegistry";
+import { CANDLE_PATTERNS, detectCandlePatterns, patternHighlights } from "@/lib/patterns";
+import { findSupportResistance, labelMarketStructure } from "@/lib/structure";
+import { createRegionsPrimitive, RegionsPrimitive } from "./regionsPrimitive";
+import { AnnotationsPrimitive, ChartAnnotation, createAnnotationsPrimitive } from "./annotationsPrimitive";
+import { createDrawingsPrimitive, DrawingsPrimitive } from "./drawingsPrimitive";
+import { DRAWING_TOOLS, snapToCandle } from "@/lib/drawings";
+
+// Bars from the left edge at which older history is requested
+const BACKFILL_THRESHOLD_BARS = 10;
+
+// Volume gets its own pane below the price pane
+const VOLUME_PANE = 1;
+const VOLUME_PANE_HEIGHT = 120;
+
+// Each oscillator instance is added as a new pane under the volume pane;
+// lightweight-charts drops a pane once its last series is removed
+const OSCILLATOR_PANE_HEIGHT = 140;
+
+// Line colours for extra instances of an indicator (e.g. EMA 20 and EMA 50),
+// so they stay distinguishable; the first instance keeps the registry colours
+const INSTANCE_COLORS = ["#e879f9", "#38bdf8", "#a3e635", "#fb923c", "#f472b6", "#2dd4bf"];
+
+const SUPPORT_COLOR = "#10b981";
+const RESISTANCE_COLOR = "#ef4444";
+
+const HIGHLIGHT_COLOR = "#3b82f6";
+const INDICATOR_HIGHLIGHT_COLOR = "#f59e0b";
+
+// Series drawn for one indicator instance, keyed by output key (bands use key.upper / key.lower)
+type IndicatorSeriesSet = Map<string, ISeriesApi<"Line"> | ISeriesApi<"Histogram">>;
+
+// Highlight markers, shaded regions and annotations drawn in an indicator instance's pane
+interface IndicatorOverlays {
+    markers: ISeriesMarkersPluginApi<Time>;
+    regions: RegionsPrimitive;
+    annotations: AnnotationsPrimitive;
+}
+
+/**
+ * The series an instance's guides, markers and regions attach to: its first
+ * line, or its first series if it has no plain line
+ */
+function primarySeries(definition: IndicatorDefinition, seriesSet: IndicatorSeriesSet) {
+    const line = definition.outputs.find((output) => output.kind === "line");
+    return (line && seriesSet.get(line.key)) ?? seriesSet.values().next().value;
+}
+
+/**
+ * Indicator instance an indicator-pane highlight refers to: by instance id,
+ * else the latest instance of that type, else the first oscillator (or
+ * volume indicator) on the chart
+ */
+function resolveHighlightTarget(indicators: IndicatorConfig[], ref?: string): IndicatorConfig | undefined {
+    if (ref) {
+        return (
+            indicators.find((i) => i.id === ref) ??
+            [...indicators].reverse().find((i) => i.name === ref.toUpperCase())
+        );
+    }
+    const panes = indicators.filter((i) => getIndicatorDefinition(i.name).pane !== "price");
+    return panes.find((i) => getIndicatorDefinition(i.name).pane === "oscillator") ?? panes[0];
+}
+
+/**
+ * Times for indicator values that run past the last candle (e.g. Ichimoku
+ * leading spans), continuing at the spacing of the last two candles
+ */
+function extendTimes(times: Time[], length: number): Time[] {
+    if (times.length < 2 || length <= times.length) return times;
+
+    const last = times[times.length - 1] as number;
+    const step = last - (times[times.length - 2] as number);
+    const future = Array.from({ length: length - times.length }, (_, i) => (last + step * (i + 1)) as Time);
+    return [...times, ...future];
+}
+
+function toLineData(values: IndicatorValues, times: Time[]): LineData<Time>[] {
+    return values
+        .map((value, idx) => ({ time: times[idx], value }))
+        .filter((d): d is LineData<Time> => d.value !== null);
+}
+
+function toHistogramData(values: IndicatorValues, times: Time[], output: IndicatorOutput): HistogramData<Time>[] {
+    return toLineData(values, times).map((d) => ({
+        ...d,
+        color: d.value < 0 && output.negativeColor ? output.negativeColor : output.color,
+    }));
+}
+
+// First and last time and count of candles drawn, to tell live updates from reloads
+interface CandleSpan {
+    first: number;
+    last: number;
+    length: number;
+}
+
+function spanOf(candles: Candle[]): CandleSpan | null {
+    if (candles.length === 0) return null;
+    return { first: candles[0].time, last: candles[candles.length - 1].time, length: candles.length };
+}
+
+/**
+ * Bars a live update touched since `prev` was drawn: 1 when only the last bar
+ * changed, 2 when one bar was appended, 0 when the candles changed otherwise
+ */
+function liveTail(prev: CandleSpan | null, candles: Candle[]): number {
+    if (!prev || candles.length === 0 || prev.first !== candles[0].time) return 0;
+    const last = candles[candles.length - 1].time;
+    if (prev.length === candles.length && prev.last === last) return 1;
+    if (prev.length + 1 === candles.length && candles[candles.length - 2].time === prev.last) return 2;
+    return 0;
+}
+
+// Swing high/low labels (HH, HL, LH, LL) for the market structure overlay
+function swingMarkers(candles: Candle[], config: MarketStructureConfig): SeriesMarker<Time>[] {
+    return labelMarketStructure(candles, config.pivotLookback).map((swing) => {
+        const bullish = swing.label === "HH" || swing.label === "HL";
+        return {
+            time: swing.time as Time,
+            position: swing.type === "high" ? "aboveBar" : "belowBar",
+            color: bullish ? SUPPORT_COLOR : RESISTANCE_COLOR,
+            shape: swing.type === "high" ? "arrowDown" : "arrowUp",
+            text: swing.label,
+        };
+    });
+}
+
+/**
+ * Set an indicator series' data. With `patch`, only points that differ from
+ * what the series holds are pushed through update(), which is what a live
+ * tick changes (the tail, plus the lagging end of shifted outputs); data that
+ * no longer lines up with the series is replaced with setData.
+ */
+function applySeriesData(
+    series: ISeriesApi<"Line"> | ISeriesApi<"Histogram">,
+    data: (LineData<Time> | HistogramData<Time>)[],
+    patch: boolean
+) {
+    const current = patch ? (series.data() as readonly Partial<HistogramData<Time>>[]) : [];
+    const aligned =
+        current.length > 0 && current.length <= data.length && current.every((d, i) => d.time === data[i].time);
+    if (!aligned) {
+        series.setData(data);
+        return;
+    }
+    data.forEach((point, i) => {
+        const drawn = current[i];
+        if (drawn && drawn.value === point.value && drawn.color === (point as HistogramData<Time>).color) return;
+        series.update(point, i < current.length - 1);
+    });
+}
+
+/**
+ * Create the series for every output of an indicator instance in its target
+ * pane. `instanceIndex` counts earlier instances of the same indicator.
+ */
+function createIndicatorSeries(
+    chart: IChartApi,
+    definition: IndicatorDefinition,
+    instanceIndex: number
+): IndicatorSeriesSet {
+    const paneIndex =
+        definition.pane === "volume" ? VOLUME_PANE : definition.pane === "oscillator" ? chart.panes().length : 0;
+    const seriesSet: IndicatorSeriesSet = new Map();
+    const range = definition.range;
+
+    definition.outputs.forEach((output, outputIndex) => {
+        const color =
+            instanceIndex > 0 && output.kind !== "histogram"
+                ? INSTANCE_COLORS[(instanceIndex - 1 + outputIndex) % INSTANCE_COLORS.length]
+                : output.color;
+        const common = {
+            priceLineVisible: false,
+            lastValueVisible: definition.pane !== "volume",
+            ...(definition.priceScale ? { priceScaleId: definition.priceScale.id } : {}),
+            ...(output.volumeFormat ? { priceFormat: { type: "volume" as const } } : {}),
+            ...(range
+                ? {
+                      autoscaleInfoProvider: () => ({
+                          priceRange: { minValue: range.min, maxValue: range.max },
+                      }),
+                  }
+                : {}),
+        };
+
+        if (output.kind === "histogram") {
+            seriesSet.set(output.key, chart.addSeries(HistogramSeries, { ...common, color }, paneIndex));
+            return;
+        }
+
+        const lineOptions = { ...common, color, lineWidth: output.lineWidth ?? 2 };
+        if (output.kind === "points") {
+            seriesSet.set(
+                output.key,
+                chart.addSeries(
+                    LineSeries,
+                    { ...lineOptions, lineVisible: false, pointMarkersVisible: true, pointMarkersRadius: 2 },
+                    paneIndex
+                )
+            );
+        } else if (output.kind === "band") {
+            seriesSet.set(`${output.key}.upper`, chart.addSeries(LineSeries, lineOptions, paneIndex));
+            seriesSet.set(`${output.key}.lower`, chart.addSeries(LineSeries, lineOptions, paneIndex));
+        } else {
+            seriesSet.set(output.key, chart.addSeries(LineSeries, lineOptions, paneIndex));
+        }
+    });
+
+    // Guides hang off the primary series so they go away with the instance
+    const guideSeries = primarySeries(definition, seriesSet);
+    for (const guide of definition.guides ?? []) {
+        guideSeries?.createPriceLine({
+            price: guide.value,
+            color: guide.color ?? "#64748b",
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            axisLabelVisible: true,
+            title: guide.label ?? "",
+        });
+    }
+
+    if (definition.pane === "oscillator") {
+        chart.panes()[paneIndex]?.setHeight(OSCILLATOR_PANE_HEIGHT);
+    }
+
+    if (definition.priceScale) {
+        const { id, visible, scaleMargins } = definition.priceScale;
+        chart.priceScale(id, paneIndex).applyOptions({
+            ...(visible !== undefined ? { visible } : {}),
+            ...(scaleMargins ? { scaleMargins } : {}),
+        });
+    }
+
+    return seriesSet;
+}
 
 export function ChartCanvas() {
+    const { state, dispatch, loadOlderCandles, checkpoint, viewRangeRef } = useChart();
+
     const chartContainerRef = useRef<HTMLDivElement>(null);
     const chartRef = useRef<IChartApi | null>(null);
     const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
     const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
-    const emaSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-    const macdLineSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-    const macdSignalSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-    const macdHistogramSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
-    const rsiSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-
-    const { state } = useChart();
+    const volumeSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+    const indicatorSeriesRef = useRef<Map<string, IndicatorSeriesSet>>(new Map());
+    const indicatorOverlaysRef = useRef<Map<string, IndicatorOverlays>>(new Map());
+    // Indicator type each series set was built for
+    const indicatorTypesRef = useRef<Map<string, IndicatorType>>(new Map());
+    const structureLinesRef = useRef<IPriceLine[]>([]);
+    const regionsRef = useRef<RegionsPrimitive | null>(null);
+    const annotationsRef = useRef<AnnotationsPrimitive | null>(null);
+    const drawingsRef = useRef<DrawingsPrimitive | null>(null);
+    // Read by the click handler, so clicks while drawing don't toggle annotations
+    const drawingToolRef = useRef(state.drawingTool);
+    // Candles last drawn by the candle, indicator, structure and marker effects,
+    // so each can tell a live tick from a reload
+    const prevCandlesRef = useRef<CandleSpan | null>(null);
+    const indicatorCandlesRef = useRef<CandleSpan | null>(null);
+    const drawnIndicatorsRef = useRef<IndicatorConfig[] | null>(null);
+    const structureCandlesRef = useRef<CandleSpan | null>(null);
+    const drawnStructureRef = useRef<MarketStructureConfig | null | undefined>(undefined);
+    // Pattern and swing markers, rebuilt once per bar rather than on every tick
+    const barMarkersRef = useRef<{
+        span: CandleSpan | null;
+        showPatterns: boolean;
+        marketStructure: MarketStructureConfig | null;
+        points: HighlightPoint[];
+        markers: SeriesMarker<Time>[];
+    } | null>(null);
+    // Set while we move the view ourselves, so only user scrolling triggers backfill
+    const programmaticScrollRef = useRef(false);
+
+    // Keep the latest backfill callback for the scroll subscription
+    const loadOlderCandlesRef = useRef(loadOlderCandles);
+    useEffect(() => {
+        loadOlderCandlesRef.current = loadOlderCandles;
+    }, [loadOlderCandles]);
 
     // Initialize chart
     useEffect(() => {
@@ -84,9 +366,61 @@ export function ChartCanvas() {
         // Create markers plugin for the series
         const markers = createSeriesMarkers(candleSeries, []);
 
+        // Shaded time regions behind the candles, annotation callouts above them
+        const regions = createRegionsPrimitive();
+        candleSeries.attachPrimitive(regions);
+        const annotations = createAnnotationsPrimitive();
+        candleSeries.attachPrimitive(annotations);
+        const drawings = createDrawingsPrimitive();
+        candleSeries.attachPrimitive(drawings);
+
+        // Volume histogram in its own pane, coloured by candle direction
+        const volumeSeries = chart.addSeries(
+            HistogramSeries,
+            {
+                priceFormat: { type: "volume" },
+                priceLineVisible: false,
+                lastValueVisible: false,
+            },
+            VOLUME_PANE
+        );
+        chart.panes()[VOLUME_PANE]?.setHeight(VOLUME_PANE_HEIGHT);
+
         chartRef.current = chart;
         candleSeriesRef.current = candleSeries;
         markersRef.current = markers;
+        regionsRef.current = regions;
+        annotationsRef.current = annotations;
+        drawingsRef.current = drawings;
+        volumeSeriesRef.current = volumeSeries;
+
+        // Fetch older history when the user scrolls near the left edge
+        chart.timeScale().subscribeVisibleLogicalRangeChange((range) => {
+            if (range && range.from < BACKFILL_THRESHOLD_BARS && !programmaticScrollRef.current) {
+                loadOlderCandlesRef.current();
+            }
+        });
+
+        // Track the range on screen so share links reopen the same view
+        chart.timeScale().subscribeVisibleTimeRangeChange((range) => {
+            viewRangeRef.current = range ? { from: range.from as number, to: range.to as number } : null;
+        });
+
+        // Annotation callouts: hover reveals crowded ones, click expands the full text
+        const annotationLayers = () => [
+            annotations,
+            ...Array.from(indicatorOverlaysRef.current.values(), (overlays) => overlays.annotations),
+        ];
+        chart.subscribeCrosshairMove((param) => {
+            const id = typeof param.hoveredObjectId === "string" ? param.hoveredObjectId : null;
+            annotationLayers().forEach((layer) => layer.setHovered(id));
+        });
+        chart.subscribeClick((param) => {
+            const id = param.hoveredObjectId;
+            if (typeof id === "string" && !drawingToolRef.current) {
+                annotationLayers().forEach((layer) => layer.toggleExpanded(id));
+            }
+        });
 
         // Handle resize
         const handleResize = () => {
@@ -101,192 +435,385 @@ export function ChartCanvas() {
         window.addEventListener("resize", handleResize);
         handleResize();
 
+        const indicatorSeries = indicatorSeriesRef.current;
+        const indicatorOverlays = indicatorOverlaysRef.current;
+        const indicatorTypes = indicatorTypesRef.current;
         return () => {
             window.removeEventListener("resize", handleResize);
+            indicatorSeries.clear();
+            indicatorOverlays.clear();
+            indicatorTypes.clear();
+            structureLinesRef.current = [];
             chart.remove();
         };
-    }, []);
+    }, [viewRangeRef]);
+
+    // Drawing tools: clicks on the price pane place points snapped to the
+    // nearest OHLC value, with a preview following the pointer until the
+    // drawing is complete. Escape cancels.
+    useEffect(() => {
+        drawingToolRef.current = state.drawingTool;
+
+        const chart = chartRef.current;
+        const candleSeries = candleSeriesRef.current;
+        const drawings = drawingsRef.current;
+        const tool = state.drawingTool;
+        if (!chart || !candleSeries || !drawings || !tool) return;
+
+        let pending: DrawingPoint[] = [];
+
+        const snapPoint = (param: MouseEventParams<Time>): DrawingPoint | null => {
+            if (param.paneIndex !== 0 || !param.point || param.logical === undefined) return null;
+            const bar = candleSeries.dataByIndex(Math.round(param.logical));
+            const price = candleSeries.coordinateToPrice(param.point.y);
+            if (!bar || !("open" in bar) || price === null) return null;
+            return snapToCandle({ ...bar, time: bar.time as number }, price);
+        };
+
+        const handleClick = (param: MouseEventParams<Time>) => {
+            const point = snapPoint(param);
+            if (!point) return;
+
+            pending = [...pending, point];
+            if (pending.length < DRAWING_TOOLS[tool].points) return;
+
+            checkpoint(`Draw ${tool.replace("_", " ")}`);
+            dispatch({ type: "ADD_DRAWING", drawing: { type: tool, points: pending } });
+            dispatch({ type: "SET_DRAWING_TOOL", tool: null });
+        };
+
+        const handleMove = (param: MouseEventParams<Time>) => {
+            const point = snapPoint(param);
+            if (pending.length === 0 || !point) return;
+            drawings.setPreview({ type: tool, points: [...pending, point] });
+        };
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") dispatch({ type: "SET_DRAWING_TOOL", tool: null });
+        };
+
+        chart.subscribeClick(handleClick);
+        chart.subscribeCrosshairMove(handleMove);
+        window.addEventListener("keydown", handleKeyDown);
+        return () => {
+            chart.unsubscribeClick(handleClick);
+            chart.unsubscribeCrosshairMove(handleMove);
+            window.removeEventListener("keydown", handleKeyDown);
+            drawings.setPreview(null);
+        };
+    }, [state.drawingTool, dispatch, checkpoint]);
+
+    useEffect(() => {
+        drawingsRef.current?.setDrawings(state.drawings);
+    }, [state.drawings]);
 
     // Update candle data
     useEffect(() => {
         if (!candleSeriesRef.current || state.candles.length === 0) return;
 
-        const candleData: CandlestickData<Time>[] = state.candles.map((c) => ({
+        const toBar = (c: Candle): CandlestickData<Time> => ({
             time: c.time as Time,
             open: c.open,
             high: c.high,
             low: c.low,
             close: c.close,
-        }));
+        });
+        const toVolumeBar = (c: Candle): HistogramData<Time> => ({
+            time: c.time as Time,
+            value: c.volume ?? 0,
+            color: c.close >= c.open ? "rgba(16, 185, 129, 0.5)" : "rgba(239, 68, 68, 0.5)",
+        });
+        const updateTail = (c: Candle) => {
+            candleSeriesRef.current?.update(toBar(c));
+            volumeSeriesRef.current?.update(toVolumeBar(c));
+        };
 
-        candleSeriesRef.current.setData(candleData);
-        chartRef.current?.timeScale().fitContent();
-    }, [state.candles]);
+        const candles = state.candles;
+        const prev = prevCandlesRef.current;
+        const first = candles[0].time;
+        const last = candles[candles.length - 1].time;
+        prevCandlesRef.current = spanOf(candles);
+
+        // Live updates touch only the tail, so patch it in place instead of
+        // resetting the whole series (keeps the user's zoom and scroll)
+        const tail = liveTail(prev, candles);
+        if (tail > 0) {
+            candles.slice(-tail).forEach(updateTail);
+            return;
+        }
 
-    // Update indicators
-    useEffect(() => {
-        if (!chartRef.current || state.candles.length === 0) return;
-
-        const closes = state.candles.map((c) => c.close);
-        const times = state.candles.map((c) => c.time as Time);
-
-        // Handle EMA
-        const emaConfig = state.indicators.find((i) => i.name === "EMA");
-        if (emaConfig) {
-            const period = emaConfig.params.period || 20;
-            const emaValues = calculateEMA(closes, period);
-
-            const emaData: LineData<Time>[] = emaValues
-                .map((value: number | null, idx: number) => ({
-                    time: times[idx],
-                    value: value as number,
-                }))
-                .filter((d: LineData<Time>) => d.value !== null);
-
-            if (!emaSeriesRef.current) {
-                emaSeriesRef.current = chartRef.current.addSeries(LineSeries, {
-                    color: "#f59e0b",
-                    lineWidth: 2,
-                    priceLineVisible: false,
-                });
-            }
-            emaSeriesRef.current.setData(emaData);
-        } else if (emaSeriesRef.current) {
-            chartRef.current.removeSeries(emaSeriesRef.current);
-            emaSeriesRef.current = null;
+        // When older candles were prepended, shift the view so it doesn't jump
+        const added = candles.length - (prev?.length ?? 0);
+        const isPrepend = !!prev && prev.last === last && first < prev.first && added > 0;
+        const timeScale = chartRef.current?.timeScale();
+        const visible = timeScale?.getVisibleLogicalRange();
+
+        programmaticScrollRef.current = true;
+        candleSeriesRef.current.setData(candles.map(toBar));
+        volumeSeriesRef.current?.setData(candles.map(toVolumeBar));
+
+        if (isPrepend && visible) {
+            timeScale?.setVisibleLogicalRange({ from: visible.from + added, to: visible.to + added });
+        } else {
+            timeScale?.fitContent();
         }
+        requestAnimationFrame(() => {
+            programmaticScrollRef.current = false;
+        });
+    }, [state.candles]);
 
-        // Handle MACD
-        const macdConfig = state.indicators.find((i) => i.name === "MACD");
-        if (macdConfig) {
-            const fast = macdConfig.params.fast || 12;
-            const slow = macdConfig.params.slow || 26;
-            const signal = macdConfig.params.signal || 9;
-            const { macdLine, signalLine, histogram } = calculateMACD(closes, fast, slow, signal);
-
-            // MACD Line
-            const macdLineData: LineData<Time>[] = macdLine
-                .map((value: number | null, idx: number) => ({
-                    time: times[idx],
-                    value: value as number,
-                }))
-                .filter((d: LineData<Time>) => d.value !== null);
-
-            if (!macdLineSeriesRef.current) {
-                macdLineSeriesRef.current = chartRef.current.addSeries(LineSeries, {
-                    color: "#3b82f6",
-                    lineWidth: 2,
-                    priceLineVisible: false,
-                    priceScaleId: "macd",
-                });
-                chartRef.current.priceScale("macd").applyOptions({
-                    scaleMargins: { top: 0.8, bottom: 0 },
-                });
-            }
-            macdLineSeriesRef.current.setData(macdLineData);
-
-            // Signal Line
-            const signalLineData: LineData<Time>[] = signalLine
-                .map((value: number | null, idx: number) => ({
-                    time: times[idx],
-                    value: value as number,
-                }))
-                .filter((d: LineData<Time>) => d.value !== null);
-
-            if (!macdSignalSeriesRef.current) {
-                macdSignalSeriesRef.current = chartRef.current.addSeries(LineSeries, {
-                    color: "#f59e0b",
-                    lineWidth: 2,
-                    priceLineVisible: false,
-                    priceScaleId: "macd",
-                });
-            }
-            macdSignalSeriesRef.current.setData(signalLineData);
-
-            // Histogram
-            const histogramData: HistogramData<Time>[] = histogram
-                .map((value: number | null, idx: number) => ({
-                    time: times[idx],
-                    value: value as number,
-                    color: (value as number) >= 0 ? "#10b981" : "#ef4444",
-                }))
-                .filter((d: HistogramData<Time>) => d.value !== null);
-
-            if (!macdHistogramSeriesRef.current) {
-                macdHistogramSeriesRef.current = chartRef.current.addSeries(HistogramSeries, {
-                    priceLineVisible: false,
-                    priceScaleId: "macd",
-                });
+    // Update indicators: one series set per indicator instance, built from the registry
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart || state.candles.length === 0) return;
+
+        const candleTimes = state.candles.map((c) => c.time as Time);
+        const active = new Set<string>();
+        // On a live tick with the same indicators, only the changed points are pushed
+        const patch =
+            state.indicators === drawnIndicatorsRef.current && liveTail(indicatorCandlesRef.current, state.candles) > 0;
+        indicatorCandlesRef.current = spanOf(state.candles);
+        drawnIndicatorsRef.current = state.indicators;
+
+        state.indicators.forEach((config, idx) => {
+            const definition = getIndicatorDefinition(config.name);
+            active.add(config.id);
+
+            let seriesSet = indicatorSeriesRef.current.get(config.id);
+            // An id now used for another indicator type needs that type's series
+            if (seriesSet && indicatorTypesRef.current.get(config.id) !== config.name) {
+                seriesSet.forEach((series) => chart.removeSeries(series));
+                indicatorOverlaysRef.current.delete(config.id);
+                seriesSet = undefined;
             }
-            macdHistogramSeriesRef.current.setData(histogramData);
-        } else {
-            // Remove MACD series if not active
-            if (macdLineSeriesRef.current) {
-                chartRef.current.removeSeries(macdLineSeriesRef.current);
-                macdLineSeriesRef.current = null;
+            if (!seriesSet) {
+                const instanceIndex = state.indicators
+                    .slice(0, idx)
+                    .filter((i) => i.name === config.name).length;
+                seriesSet = createIndicatorSeries(chart, definition, instanceIndex);
+                indicatorSeriesRef.current.set(config.id, seriesSet);
+                indicatorTypesRef.current.set(config.id, config.name);
+
+                // Instances in their own pane can carry highlights and regions
+                const primary = primarySeries(definition, seriesSet);
+                if (primary && definition.pane !== "price") {
+                    const regions = createRegionsPrimitive();
+                    const annotations = createAnnotationsPrimitive();
+                    primary.attachPrimitive(regions);
+                    primary.attachPrimitive(annotations);
+                    indicatorOverlaysRef.current.set(config.id, {
+                        markers: createSeriesMarkers(primary, []),
+                        regions,
+                        annotations,
+                    });
+                }
             }
-            if (macdSignalSeriesRef.current) {
-                chartRef.current.removeSeries(macdSignalSeriesRef.current);
-                macdSignalSeriesRef.current = null;
+
+            const values = definition.compute(state.candles, config.params);
+            for (const output of definition.outputs) {
+                const result = values[output.key];
+                const length = Array.isArray(result) ? result.length : result.upper.length;
+                const times = extendTimes(candleTimes, length);
+                const apply = (key: string, data: (LineData<Time> | HistogramData<Time>)[]) => {
+                    const series = seriesSet?.get(key);
+                    if (series) applySeriesData(series, data, patch);
+                };
+                if (output.kind === "band") {
+                    const band = result as BandValues;
+                    apply(`${output.key}.upper`, toLineData(band.upper, times));
+                    apply(`${output.key}.lower`, toLineData(band.lower, times));
+                } else if (output.kind === "histogram") {
+                    apply(output.key, toHistogramData(result as IndicatorValues, times, output));
+                } else {
+                    apply(output.key, toLineData(result as IndicatorValues, times));
+                }
             }
-            if (macdHistogramSeriesRef.current) {
-                chartRef.current.removeSeries(macdHistogramSeriesRef.current);
-                macdHistogramSeriesRef.current = null;
+            if (!patch) seriesSet.forEach((series) => series.applyOptions({ visible: config.visible }));
+        });
+
+        // Remove series for instances that are no longer active
+        for (const [id, seriesSet] of indicatorSeriesRef.current) {
+            if (!active.has(id)) {
+                seriesSet.forEach((series) => chart.removeSeries(series));
+                indicatorSeriesRef.current.delete(id);
+                indicatorOverlaysRef.current.delete(id);
+                indicatorTypesRef.current.delete(id);
             }
         }
+    }, [state.candles, state.indicators]);
 
-        // Handle RSI
-        const rsiConfig = state.indicators.find((i) => i.name === "RSI");
-        if (rsiConfig) {
-            const period = rsiConfig.params.period || 14;
-            const rsiValues = calculateRSI(closes, period);
-
-            const rsiData: LineData<Time>[] = rsiValues
-                .map((value: number | null, idx: number) => ({
-                    time: times[idx],
-                    value: value as number,
-                }))
-                .filter((d: LineData<Time>) => d.value !== null);
-
-            if (!rsiSeriesRef.current) {
-                rsiSeriesRef.current = chartRef.current.addSeries(LineSeries, {
-                    color: "#a855f7",
-                    lineWidth: 2,
-                    priceLineVisible: false,
-                    priceScaleId: "rsi",
-                });
-                chartRef.current.priceScale("rsi").applyOptions({
-                    scaleMargins: { top: 0.85, bottom: 0 },
-                });
+    // Support/resistance zones as price lines: the zone centre plus dotted bounds
+    useEffect(() => {
+        const candleSeries = candleSeriesRef.current;
+        if (!candleSeries) return;
+
+        // Zones are rebuilt once per bar, not on every tick of the forming one
+        const drawn = structureCandlesRef.current;
+        structureCandlesRef.current = spanOf(state.candles);
+        if (state.marketStructure === drawnStructureRef.current && liveTail(drawn, state.candles) === 1) return;
+        drawnStructureRef.current = state.marketStructure;
+
+        structureLinesRef.current.forEach((line) => candleSeries.removePriceLine(line));
+        structureLinesRef.current = [];
+
+        const config = state.marketStructure;
+        if (!config?.levels || state.candles.length === 0) return;
+
+        const zones = findSupportResistance(state.candles, {
+            pivotLookback: config.pivotLookback,
+            maxZones: config.maxZones,
+        });
+        for (const zone of zones) {
+            const color = zone.type === "support" ? SUPPORT_COLOR : RESISTANCE_COLOR;
+            structureLinesRef.current.push(
+                candleSeries.createPriceLine({
+                    price: zone.price,
+                    color,
+                    lineWidth: 1,
+                    lineStyle: LineStyle.Dashed,
+                    axisLabelVisible: true,
+                    title: `${zone.type === "support" ? "S" : "R"} ×${zone.touches}`,
+                })
+            );
+            if (zone.high > zone.low) {
+                for (const price of [zone.low, zone.high]) {
+                    structureLinesRef.current.push(
+                        candleSeries.createPriceLine({
+                            price,
+                            color,
+                            lineWidth: 1,
+                            lineStyle: LineStyle.Dotted,
+                            axisLabelVisible: false,
+                        })
+                    );
+                }
             }
-            rsiSeriesRef.current.setData(rsiData);
-        } else if (rsiSeriesRef.current) {
-            chartRef.current.removeSeries(rsiSeriesRef.current);
-            rsiSeriesRef.current = null;
         }
-    }, [state.candles, state.indicators]);
+    }, [state.candles, state.marketStructure]);
 
-    // Handle markers for highlights
+    // Handle markers for highlights, detected candlestick patterns and swing labels,
+    // shaded regions and annotations; indicator-pane ones go to the instance they name
     useEffect(() => {
         if (!markersRef.current) return;
 
-        if (state.highlights.length === 0) {
-            markersRef.current.setMarkers([]);
-            return;
+        const points: HighlightPoint[] = [];
+        const regions: HighlightRegion[] = [];
+        const indicatorPoints = new Map<string, HighlightPoint[]>();
+        const indicatorRegions = new Map<string, HighlightRegion[]>();
+        const annotations: ChartAnnotation[] = [];
+        const indicatorAnnotations = new Map<string, ChartAnnotation[]>();
+
+        // "price", the indicator instance id whose pane it belongs to, or null
+        // when the named indicator is not on the chart
+        const paneTarget = (item: { pane?: string; indicator?: string }) => {
+            if (item.pane !== "indicator") return "price";
+            const target = resolveHighlightTarget(state.indicators, item.indicator);
+            if (!target) return null;
+            // Overlays such as EMA share the price pane
+            return getIndicatorDefinition(target.name).pane === "price" ? "price" : target.id;
+        };
+
+        for (const highlight of state.highlights) {
+            const target = paneTarget(highlight);
+            if (target === "price") {
+                points.push(highlight);
+            } else if (target) {
+                indicatorPoints.set(target, [...(indicatorPoints.get(target) ?? []), highlight]);
+            }
+        }
+        for (const region of state.regions) {
+            const target = paneTarget(region);
+            if (target === "price") {
+                regions.push(region);
+            } else if (target) {
+                indicatorRegions.set(target, [...(indicatorRegions.get(target) ?? []), region]);
+            }
+        }
+
+        // Annotations are only ever appended or cleared, so the index is a stable id
+        state.annotations.forEach((annotation, index) => {
+            const target = paneTarget(annotation);
+            const item = { ...annotation, id: `annotation-${index}` };
+            if (target === "price") {
+                annotations.push(item);
+            } else if (target) {
+                indicatorAnnotations.set(target, [...(indicatorAnnotations.get(target) ?? []), item]);
+            }
+        });
+
+        // Patterns and swings are detected once per bar, not on every tick of the forming one
+        let barMarkers = barMarkersRef.current;
+        if (
+            !barMarkers ||
+            barMarkers.showPatterns !== state.showPatterns ||
+            barMarkers.marketStructure !== state.marketStructure ||
+            liveTail(barMarkers.span, state.candles) !== 1
+        ) {
+            barMarkers = {
+                span: spanOf(state.candles),
+                showPatterns: state.showPatterns,
+                marketStructure: state.marketStructure,
+                points: state.showPatterns ? patternHighlights(detectCandlePatterns(state.candles)) : [],
+                markers: state.marketStructure?.swings ? swingMarkers(state.candles, state.marketStructure) : [],
+            };
+            barMarkersRef.current = barMarkers;
         }
+        points.push(...barMarkers.points);
 
-        const markers: SeriesMarker<Time>[] = state.highlights
-            .filter((h) => !h.pane || h.pane === "price")
-            .map((highlight) => ({
+        const markers: SeriesMarker<Time>[] = points.map((highlight) => {
+            const style = highlight.pattern ? CANDLE_PATTERNS[highlight.pattern] : null;
+            return {
                 time: highlight.time as Time,
-                position: "aboveBar" as const,
-                color: "#3b82f6",
-                shape: "circle" as const,
+                position: style?.position ?? ("aboveBar" as const),
+                color: style?.color ?? HIGHLIGHT_COLOR,
+                shape: style?.shape ?? ("circle" as const),
                 text: highlight.label || "",
-            }));
+            };
+        });
+
+        markers.push(...barMarkers.markers);
 
+        // The markers plugin expects markers in time order
+        markers.sort((a, b) => (a.time as number) - (b.time as number));
         markersRef.current.setMarkers(markers);
-    }, [state.highlights]);
+        regionsRef.current?.setRegions(regions);
+        annotationsRef.current?.setAnnotations(annotations);
+
+        // Indicator panes: markers sit on the indicator value when one is given
+        for (const [id, overlays] of indicatorOverlaysRef.current) {
+            const paneMarkers: SeriesMarker<Time>[] = (indicatorPoints.get(id) ?? [])
+                .map((highlight) =>
+                    highlight.price !== undefined
+                        ? {
+                              time: highlight.time as Time,
+                              position: "atPriceMiddle" as const,
+                              price: highlight.price,
+                              color: INDICATOR_HIGHLIGHT_COLOR,
+                              shape: "circle" as const,
+                              text: highlight.label || "",
+                          }
+                        : {
+                              time: highlight.time as Time,
+                              position: "aboveBar" as const,
+                              color: INDICATOR_HIGHLIGHT_COLOR,
+                              shape: "circle" as const,
+                              text: highlight.label || "",
+                          }
+                )
+                .sort((a, b) => (a.time as number) - (b.time as number));
+            overlays.markers.setMarkers(paneMarkers);
+            overlays.regions.setRegions(indicatorRegions.get(id) ?? []);
+            overlays.annotations.setAnnotations(indicatorAnnotations.get(id) ?? []);
+        }
+    }, [
+        state.highlights,
+        state.regions,
+        state.annotations,
+        state.indicators,
+        state.showPatterns,
+        state.marketStructure,
+        state.candles,
+    ]);
 
     // Handle focus range
     useEffect(() => {
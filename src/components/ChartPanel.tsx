@@ -1,40 +1,113 @@
 "use client";
 
-import { useEffect } from "react";
-import { useChart } from "@/context/ChartContext";
+import { useEffect, useState } from "react";
+import { useChart, DEFAULT_MAX_ZONES, DEFAULT_PIVOT_LOOKBACK } from "@/context/ChartContext";
 import { ChartCanvas } from "./ChartCanvas";
-import { Timeframe } from "@/lib/schema/chartActions";
+import { IndicatorType, Timeframe } from "@/lib/schema/chartActions";
+import { TIMEFRAME_PRESETS, timeframeLabel } from "@/lib/timeframes";
+import { INDICATORS, INDICATOR_TYPES, indicatorLabel } from "@/lib/indicatorRegistry";
+import { DRAWING_TOOLS, DRAWING_TYPES, DrawingType } from "@/lib/drawings";
+import { CHART_LINK_PARAM, encodeChartLink } from "@/lib/chartLink";
 
 export function ChartPanel() {
-    const { state, dispatch, loadCandles, executeAction } = useChart();
+    const { state, dispatch, executeActions, checkpoint, undo, redo, undoLabel, redoLabel, viewRangeRef } =
+        useChart();
+    const [linkCopied, setLinkCopied] = useState(false);
 
-    // Load initial candles on mount
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
     useEffect(() => {
-        loadCandles();
-    }, [loadCandles]);
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+                return;
+            }
+
+            const key = event.key.toLowerCase();
+            if (key === "z" && !event.shiftKey) {
+                event.preventDefault();
+                undo();
+            } else if ((key === "z" && event.shiftKey) || key === "y") {
+                event.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [undo, redo]);
 
     const handleSymbolChange = (symbol: string) => {
-        executeAction({ type: "SET_SYMBOL", symbol });
+        executeActions([{ type: "SET_SYMBOL", symbol }], { label: `Switch to ${symbol}` });
     };
 
     const handleTimeframeChange = (timeframe: Timeframe) => {
-        executeAction({ type: "SET_TIMEFRAME", timeframe });
+        executeActions([{ type: "SET_TIMEFRAME", timeframe }], { label: `Switch to ${timeframeLabel(timeframe)}` });
+    };
+
+    const handleToggleLive = () => {
+        dispatch({ type: "SET_LIVE", isLive: !state.isLive });
+    };
+
+    const handleTogglePatterns = () => {
+        checkpoint(state.showPatterns ? "Hide patterns" : "Show patterns");
+        dispatch({ type: "SET_SHOW_PATTERNS", showPatterns: !state.showPatterns });
+    };
+
+    const handleToggleStructure = () => {
+        checkpoint(state.marketStructure ? "Hide support/resistance" : "Show support/resistance");
+        dispatch({
+            type: "SET_MARKET_STRUCTURE",
+            config: state.marketStructure
+                ? null
+                : { levels: true, swings: true, pivotLookback: DEFAULT_PIVOT_LOOKBACK, maxZones: DEFAULT_MAX_ZONES },
+        });
+    };
+
+    const handleToggleDrawingTool = (tool: DrawingType) => {
+        dispatch({ type: "SET_DRAWING_TOOL", tool: state.drawingTool === tool ? null : tool });
     };
 
     const handleClearOverlays = () => {
-        executeAction({ type: "CLEAR_HIGHLIGHTS" });
+        executeActions([{ type: "CLEAR_HIGHLIGHTS" }], { label: "Clear highlights" });
     };
 
     const handleClearIndicators = () => {
-        executeAction({ type: "CLEAR_INDICATORS" });
+        executeActions([{ type: "CLEAR_INDICATORS" }], { label: "Clear indicators" });
     };
 
-    const handleToggleIndicator = (indicator: "MACD" | "RSI" | "EMA") => {
+    const handleToggleIndicator = (indicator: IndicatorType) => {
         const existing = state.indicators.find((i) => i.name === indicator);
         if (existing) {
+            // Toggling off removes every instance of the indicator
+            checkpoint(`Remove ${INDICATORS[indicator].label}`);
             dispatch({ type: "REMOVE_INDICATOR", indicatorName: indicator });
         } else {
-            executeAction({ type: "ADD_INDICATOR", indicator });
+            executeActions([{ type: "ADD_INDICATOR", indicator }], { label: `Add ${INDICATORS[indicator].label}` });
+        }
+    };
+
+    const handleRemoveIndicator = (id: string) => {
+        checkpoint(`Remove ${id}`);
+        dispatch({ type: "REMOVE_INDICATOR", id });
+    };
+
+    const handleRemoveDrawing = (id: string) => {
+        checkpoint(`Remove ${id}`);
+        dispatch({ type: "REMOVE_DRAWING", id });
+    };
+
+    // Copy a link that reopens this chart, as shown now
+    const handleShare = async () => {
+        const url = new URL(window.location.pathname, window.location.origin);
+        url.searchParams.set(CHART_LINK_PARAM, encodeChartLink(state, viewRangeRef.current));
+        try {
+            await navigator.clipboard.writeText(url.toString());
+            setLinkCopied(true);
+            setTimeout(() => setLinkCopied(false), 2000);
+        } catch {
+            // Clipboard access can be denied; let the user copy it by hand
+            window.prompt("Copy this chart link:", url.toString());
         }
     };
 
@@ -45,6 +118,24 @@ export function ChartPanel() {
     return (
         <div className="chart-panel">
             <div className="chart-controls">
+                {/* Undo/redo of toolbar and assistant changes */}
+                <button
+                    className="chart-button"
+                    onClick={undo}
+                    disabled={!undoLabel}
+                    title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+                >
+                    ↶
+                </button>
+                <button
+                    className="chart-button"
+                    onClick={redo}
+                    disabled={!redoLabel}
+                    title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                >
+                    ↷
+                </button>
+
                 {/* Symbol selector */}
                 <select
                     className="chart-select"
@@ -62,35 +153,85 @@ export function ChartPanel() {
                     value={state.timeframe}
                     onChange={(e) => handleTimeframeChange(e.target.value as Timeframe)}
                 >
-                    <option value="1h">1 Hour</option>
-                    <option value="4h">4 Hours</option>
-                    <option value="1d">1 Day</option>
+                    {TIMEFRAME_PRESETS.map((t) => (
+                        <option key={t.id} value={t.id}>
+                            {t.label}
+                        </option>
+                    ))}
+                    {/* Custom multiples set by the assistant, e.g. 2h */}
+                    {!TIMEFRAME_PRESETS.some((t) => t.id === state.timeframe) && (
+                        <option value={state.timeframe}>{timeframeLabel(state.timeframe)}</option>
+                    )}
                 </select>
 
-                <div style={{ flex: 1 }} />
-
-                {/* Indicator toggles */}
+                {/* Live updates toggle */}
                 <button
-                    className={`chart-button ${isIndicatorActive("EMA") ? "active" : ""}`}
-                    onClick={() => handleToggleIndicator("EMA")}
+                    className={`chart-button ${state.isLive ? "active" : ""}`}
+                    onClick={handleToggleLive}
+                    title="Stream live updates for the latest candle"
                 >
-                    EMA
+                    ● Live
                 </button>
+
+                {/* Candlestick pattern markers */}
                 <button
-                    className={`chart-button ${isIndicatorActive("MACD") ? "active" : ""}`}
-                    onClick={() => handleToggleIndicator("MACD")}
+                    className={`chart-button ${state.showPatterns ? "active" : ""}`}
+                    onClick={handleTogglePatterns}
+                    title="Mark candlestick patterns (doji, engulfing, stars, ...)"
                 >
-                    MACD
+                    Patterns
                 </button>
+
+                {/* Support/resistance zones and swing structure */}
                 <button
-                    className={`chart-button ${isIndicatorActive("RSI") ? "active" : ""}`}
-                    onClick={() => handleToggleIndicator("RSI")}
+                    className={`chart-button ${state.marketStructure ? "active" : ""}`}
+                    onClick={handleToggleStructure}
+                    title="Show support/resistance zones and HH/HL/LH/LL swing labels"
                 >
-                    RSI
+                    S/R
                 </button>
 
+                {/* Drawing tools */}
+                <div style={{ width: "1px", height: "24px", background: "var(--border)" }} />
+                {DRAWING_TYPES.map((tool) => (
+                    <button
+                        key={tool}
+                        className={`chart-button ${state.drawingTool === tool ? "active" : ""}`}
+                        onClick={() => handleToggleDrawingTool(tool)}
+                        title={`${DRAWING_TOOLS[tool].title} (Esc to cancel)`}
+                    >
+                        {DRAWING_TOOLS[tool].label}
+                    </button>
+                ))}
+                {state.drawings.length > 0 && (
+                    <button
+                        className="chart-button"
+                        onClick={() => executeActions([{ type: "CLEAR_DRAWINGS" }], { label: "Clear drawings" })}
+                    >
+                        Clear Drawings
+                    </button>
+                )}
+
+                <div style={{ flex: 1 }} />
+
+                {/* Indicator toggles, one per registry entry */}
+                {INDICATOR_TYPES.map((type) => (
+                    <button
+                        key={type}
+                        className={`chart-button ${isIndicatorActive(type) ? "active" : ""}`}
+                        onClick={() => handleToggleIndicator(type)}
+                        title={INDICATORS[type].description}
+                    >
+                        {INDICATORS[type].label}
+                    </button>
+                ))}
+
                 <div style={{ width: "1px", height: "24px", background: "var(--border)", margin: "0 8px" }} />
 
+                <button className="chart-button" onClick={handleShare} title="Copy a link to this chart">
+                    {linkCopied ? "✓ Link copied" : "🔗 Share"}
+                </button>
+
                 {/* Clear buttons */}
                 <button className="chart-button" onClick={handleClearOverlays}>
                     Clear Highlights
@@ -126,9 +267,55 @@ export function ChartPanel() {
                 <span>⏱️ {state.timeframe}</span>
                 <span>📈 {state.candles.length} candles</span>
                 {state.indicators.length > 0 && (
-                    <span>🔧 {state.indicators.map((i) => i.name).join(", ")}</span>
+                    <span>
+                        🔧{" "}
+                        {state.indicators.map((i) => (
+                            <button
+                                key={i.id}
+                                onClick={() => handleRemoveIndicator(i.id)}
+                                title={`Remove ${i.id}`}
+                                style={{
+                                    background: "none",
+                                    border: "none",
+                                    color: "inherit",
+                                    cursor: "pointer",
+                                    padding: "0 4px",
+                                    fontSize: "inherit",
+                                }}
+                            >
+                                {indicatorLabel(i.name, i.params)} ×
+                            </button>
+                        ))}
+                    </span>
                 )}
                 {state.highlights.length > 0 && <span>✨ {state.highlights.length} highlights</span>}
+                {state.drawings.length > 0 && (
+                    <span>
+                        ✏️{" "}
+                        {state.drawings.map((d) => (
+                            <button
+                                key={d.id}
+                                onClick={() => handleRemoveDrawing(d.id)}
+                                title={`Remove ${d.id}`}
+                                style={{
+                                    background: "none",
+                                    border: "none",
+                                    color: "inherit",
+                                    cursor: "pointer",
+                                    padding: "0 4px",
+                                    fontSize: "inherit",
+                                }}
+                            >
+                                {d.label ?? d.id} ×
+                            </button>
+                        ))}
+                    </span>
+                )}
+                {state.regions.length > 0 && (
+                    <span title={state.regions.map((r) => r.label ?? "Region").join(", ")}>
+                        ▭ {state.regions.length} regions
+                    </span>
+                )}
             </div>
         </div>
     );
@@ -1,24 +1,259 @@
 "use client";
 
-import { useState, useRef, useEffect, KeyboardEvent } from "react";
+import { useState, useRef, useEffect, useCallback, KeyboardEvent } from "react";
 import { useChart } from "@/context/ChartContext";
-import { ChatMessage, LessonOption, ChartAction } from "@/lib/schema/chartActions";
+import { ActionIssue, ChatMessage, LessonOption, ChartAction } from "@/lib/schema/chartActions";
+import { decodeChartLink, encodeChartLink } from "@/lib/chartLink";
+import {
+    ChatSession,
+    SessionSummary,
+    createSessionId,
+    fromStoredMessages,
+    getSessionStore,
+    lastSessionId,
+    rememberSession,
+    sessionTitle,
+    toStoredMessages,
+} from "@/lib/sessions";
 import { MessageBubble } from "./MessageBubble";
+import { SessionSidebar } from "./SessionSidebar";
 
-export function ChatPanel() {
-    const [messages, setMessages] = useState<ChatMessage[]>([
-        {
-            id: "welcome",
-            role: "assistant",
-            content:
-                "Welcome to Tradecraft! 👋\n\nI'm your trading education assistant. Ask me about any trading concept and I'll explain it with interactive chart demonstrations.\n\nTry asking:\n• \"What is MACD?\"\n• \"Explain RSI indicator\"\n• \"How do EMAs work?\"",
-            timestamp: new Date(),
-        },
-    ]);
+const sessionStore = getSessionStore();
+
+// Sessions are saved once the chat and chart have been still this long
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Server-Sent Events from /api/chat/stream
+type StreamEvent =
+    | { event: "text"; data: { delta: string } }
+    | { event: "action"; data: { action: ChartAction } }
+    | { event: "tool"; data: { name: string } }
+    | {
+          event: "done";
+          data: { message: { content: string }; lessonOptions?: LessonOption[]; actionIssues?: ActionIssue[] };
+      }
+    | { event: "error"; data: { message: string } };
+
+function parseStreamEvent(frame: string): StreamEvent | null {
+    let event = "message";
+    let data = "";
+    for (const line of frame.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+    }
+    return data ? ({ event, data: JSON.parse(data) } as StreamEvent) : null;
+}
+
+function welcomeMessage(): ChatMessage {
+    return {
+        id: "welcome",
+        role: "assistant",
+        content:
+            "Welcome to Tradecraft! 👋\n\nI'm your trading education assistant. Ask me about any trading concept and I'll explain it with interactive chart demonstrations.\n\nTry asking:\n• \"What is MACD?\"\n• \"Explain RSI indicator\"\n• \"How do EMAs work?\"",
+        timestamp: new Date(),
+    };
+}
+
+// The open session apart from its chat and chart; without a title it is named after the first question
+type SessionMeta = Pick<ChatSession, "id" | "createdAt" | "forkedFrom"> & { title?: string };
+
+function newSessionMeta(): SessionMeta {
+    return { id: createSessionId(), createdAt: new Date().toISOString() };
+}
+
+/**
+ * `resumeLastSession` reopens the session from before a reload; it is off
+ * when the page was opened from a chart link, which starts a new one
+ */
+export function ChatPanel({ resumeLastSession = true }: { resumeLastSession?: boolean }) {
+    const [messages, setMessages] = useState<ChatMessage[]>(() => [welcomeMessage()]);
     const [input, setInput] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    // True once the reply has started arriving, which replaces the "Thinking..." bubble
+    const [isStreaming, setIsStreaming] = useState(false);
+    // Analysis tool the assistant is running before it answers
+    const [toolStatus, setToolStatus] = useState<string | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
-    const { state, executeActions } = useChart();
+    const { state, executeAction, executeActions, checkpoint, revertTo, canRevert, loadChart, viewRangeRef } =
+        useChart();
+
+    const [session, setSession] = useState<SessionMeta>(newSessionMeta);
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [showSessions, setShowSessions] = useState(false);
+    // Set while a session's chart is rebuilt; nothing is saved meanwhile
+    const [restoring, setRestoring] = useState(false);
+    // What was last saved, so unchanged sessions aren't written again
+    const lastSavedRef = useRef<string | null>(null);
+    // Set after switching sessions: the next settled state is the saved one
+    const baselineRef = useRef(false);
+    // Latest chart for the autosave timer, which shouldn't restart on every live candle
+    const chartStateRef = useRef(state);
+    useEffect(() => {
+        chartStateRef.current = state;
+    }, [state]);
+
+    const title = session.title ?? sessionTitle(messages);
+    const chartLink = encodeChartLink(state);
+    const hasQuestion = messages.some((m) => m.role === "user");
+
+    const refreshSessions = useCallback(async () => {
+        try {
+            setSessions(await sessionStore.list());
+        } catch (error) {
+            console.error("[Sessions] Listing failed:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (showSessions) refreshSessions();
+    }, [showSessions, refreshSessions]);
+
+    // Save the session once the chat and chart settle, from the learner's first question on
+    useEffect(() => {
+        if (restoring || isLoading || state.isLoading) return;
+        const key = JSON.stringify([session, title, messages, chartLink]);
+        if (baselineRef.current) {
+            baselineRef.current = false;
+            lastSavedRef.current = key;
+            return;
+        }
+        if (!hasQuestion || key === lastSavedRef.current) return;
+
+        const timer = setTimeout(async () => {
+            try {
+                await sessionStore.save({
+                    id: session.id,
+                    title,
+                    createdAt: session.createdAt,
+                    updatedAt: new Date().toISOString(),
+                    forkedFrom: session.forkedFrom,
+                    messages: toStoredMessages(messages),
+                    chart: encodeChartLink(chartStateRef.current, viewRangeRef.current),
+                });
+                lastSavedRef.current = key;
+                rememberSession(session.id);
+                if (showSessions) refreshSessions();
+            } catch (error) {
+                console.error("[Sessions] Saving failed:", error);
+            }
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [
+        session,
+        title,
+        messages,
+        chartLink,
+        hasQuestion,
+        restoring,
+        isLoading,
+        state.isLoading,
+        showSessions,
+        refreshSessions,
+        viewRangeRef,
+    ]);
+
+    // Show a session's chat and rebuild its chart (the default chart when it has none)
+    const openSession = useCallback(
+        async (meta: SessionMeta, chat: ChatMessage[], chart: string | null) => {
+            setSession(meta);
+            setMessages(chat);
+            setRestoring(true);
+            try {
+                await loadChart((chart && decodeChartLink(chart)) || undefined);
+            } finally {
+                baselineRef.current = true;
+                setRestoring(false);
+            }
+        },
+        [loadChart]
+    );
+
+    const resumeSession = useCallback(
+        async (id: string) => {
+            try {
+                const saved = await sessionStore.get(id);
+                if (!saved) {
+                    console.warn(`[Sessions] Session ${id} no longer exists`);
+                    return;
+                }
+                rememberSession(saved.id);
+                const meta = { id, title: saved.title, createdAt: saved.createdAt, forkedFrom: saved.forkedFrom };
+                await openSession(meta, fromStoredMessages(saved.messages), saved.chart);
+            } catch (error) {
+                console.error(`[Sessions] Resuming ${id} failed:`, error);
+            }
+        },
+        [openSession]
+    );
+
+    const startNewSession = async () => {
+        rememberSession(null);
+        await openSession(newSessionMeta(), [welcomeMessage()], null);
+    };
+
+    // Pick up where the learner left off before a reload
+    const resumedRef = useRef(false);
+    useEffect(() => {
+        if (resumedRef.current) return;
+        resumedRef.current = true;
+        const id = resumeLastSession ? lastSessionId() : null;
+        if (id) resumeSession(id);
+    }, [resumeLastSession, resumeSession]);
+
+    const handleRenameSession = async (id: string, newTitle: string) => {
+        if (id === session.id) {
+            // Saved with the next autosave
+            setSession((s) => ({ ...s, title: newTitle }));
+            return;
+        }
+        try {
+            const saved = await sessionStore.get(id);
+            if (saved) await sessionStore.save({ ...saved, title: newTitle });
+        } catch (error) {
+            console.error(`[Sessions] Renaming ${id} failed:`, error);
+        }
+        refreshSessions();
+    };
+
+    // Continue a copy of a session, leaving the original as it is
+    const handleForkSession = async (id: string) => {
+        const now = new Date().toISOString();
+        if (id === session.id) {
+            // The chat and chart on screen carry on as the copy
+            setSession({ id: createSessionId(), title: `${title} (fork)`, createdAt: now, forkedFrom: id });
+            return;
+        }
+        try {
+            const source = await sessionStore.get(id);
+            if (!source) return;
+            const copy = {
+                ...source,
+                id: createSessionId(),
+                title: `${source.title} (fork)`,
+                createdAt: now,
+                updatedAt: now,
+                forkedFrom: id,
+            };
+            await sessionStore.save(copy);
+            await resumeSession(copy.id);
+        } catch (error) {
+            console.error(`[Sessions] Forking ${id} failed:`, error);
+        }
+        refreshSessions();
+    };
+
+    const handleDeleteSession = async (id: string) => {
+        const target = sessions.find((s) => s.id === id);
+        if (!window.confirm(`Delete "${target?.title ?? "this session"}"? This cannot be undone.`)) return;
+        try {
+            await sessionStore.remove(id);
+        } catch (error) {
+            console.error(`[Sessions] Deleting ${id} failed:`, error);
+            return;
+        }
+        if (id === session.id) await startNewSession();
+        refreshSessions();
+    };
 
     // Auto-scroll to bottom when new messages arrive
     useEffect(() => {
@@ -39,8 +274,32 @@ export function ChatPanel() {
         setInput("");
         setIsLoading(true);
 
+        const assistantId = `assistant-${Date.now()}`;
+        // Actions run one after another, in the order they stream in, and
+        // form one undo step tagged with the reply so it can be reverted
+        let actionQueue = Promise.resolve();
+        let recorded = false;
+
+        // Create the assistant message on its first update, then patch it in place
+        const updateAssistant = (update: (message: ChatMessage) => ChatMessage) => {
+            setIsStreaming(true);
+            setMessages((prev) => {
+                const existing = prev.find((m) => m.id === assistantId);
+                if (!existing) {
+                    const created: ChatMessage = {
+                        id: assistantId,
+                        role: "assistant",
+                        content: "",
+                        timestamp: new Date(),
+                    };
+                    return [...prev, update(created)];
+                }
+                return prev.map((m) => (m.id === assistantId ? update(m) : m));
+            });
+        };
+
         try {
-            const response = await fetch("/api/chat", {
+            const response = await fetch("/api/chat/stream", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
@@ -53,7 +312,13 @@ export function ChatPanel() {
                         timeframe: state.timeframe,
                         visibleFrom: state.visibleFrom,
                         visibleTo: state.visibleTo,
+                        loadedFrom: state.candles[0]?.time ?? null,
+                        loadedTo: state.candles[state.candles.length - 1]?.time ?? null,
+                        highlights: state.highlights,
+                        regions: state.regions,
+                        annotations: state.annotations,
                         indicators: state.indicators.map((i) => ({
+                            id: i.id,
                             name: i.name,
                             params: i.params,
                         })),
@@ -61,26 +326,63 @@ export function ChatPanel() {
                 }),
             });
 
-            if (!response.ok) {
+            if (!response.ok || !response.body) {
                 throw new Error("Failed to get response");
             }
 
-            const data = await response.json();
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
 
-            const assistantMessage: ChatMessage = {
-                id: `assistant-${Date.now()}`,
-                role: "assistant",
-                content: data.message.content,
-                lessonOptions: data.lessonOptions,
-                timestamp: new Date(),
-            };
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                // Events are separated by a blank line; keep any partial one for the next chunk
+                const frames = buffer.split("\n\n");
+                buffer = frames.pop() ?? "";
 
-            setMessages((prev) => [...prev, assistantMessage]);
+                for (const frame of frames) {
+                    const event = parseStreamEvent(frame);
+                    if (!event) continue;
 
-            // Execute any immediate actions from the response
-            if (data.actions && data.actions.length > 0) {
-                await executeActions(data.actions);
+                    switch (event.event) {
+                        case "text":
+                            setToolStatus(null);
+                            updateAssistant((m) => ({ ...m, content: m.content + event.data.delta }));
+                            break;
+                        case "action": {
+                            const { action } = event.data;
+                            actionQueue = actionQueue
+                                .then(() => {
+                                    if (!recorded) {
+                                        recorded = true;
+                                        checkpoint(`Assistant: ${userMessage.content.slice(0, 40)}`, assistantId);
+                                    }
+                                    return executeAction(action);
+                                })
+                                .catch((error) => console.error("Chart action failed:", action, error));
+                            break;
+                        }
+                        case "tool":
+                            setToolStatus(`Checking the chart (${event.data.name})...`);
+                            break;
+                        case "done":
+                            updateAssistant((m) => ({
+                                ...m,
+                                content: event.data.message.content,
+                                lessonOptions: event.data.lessonOptions,
+                                actionIssues: event.data.actionIssues,
+                            }));
+                            break;
+                        case "error":
+                            throw new Error(event.data.message);
+                    }
+                }
             }
+
+            await actionQueue;
         } catch (error) {
             console.error("Chat error:", error);
             const errorMessage: ChatMessage = {
@@ -93,6 +395,8 @@ export function ChatPanel() {
             setMessages((prev) => [...prev, errorMessage]);
         } finally {
             setIsLoading(false);
+            setIsStreaming(false);
+            setToolStatus(null);
         }
     };
 
@@ -113,12 +417,13 @@ export function ChatPanel() {
         };
         setMessages((prev) => [...prev, selectionMessage]);
 
-        // Execute the actions
-        await executeActions(option.actions);
+        // Execute the actions as one undo step, revertible from the confirmation
+        const confirmId = `confirm-${Date.now()}`;
+        await executeActions(option.actions, { label: option.title, tag: confirmId });
 
         // Add confirmation message
         const confirmMessage: ChatMessage = {
-            id: `confirm-${Date.now()}`,
+            id: confirmId,
             role: "assistant",
             content: `I've updated the chart to show ${option.title}. ${option.description || "Take a look at the highlighted areas on the chart."}`,
             timestamp: new Date(),
@@ -127,63 +432,98 @@ export function ChatPanel() {
     };
 
     return (
-        <div className="chat-panel">
-            <div className="chat-header" style={{ padding: "16px", borderBottom: "1px solid var(--border)" }}>
-                <h2 style={{ margin: 0, fontSize: "18px", fontWeight: 600 }}>💬 Trading Assistant</h2>
-                <p style={{ margin: "4px 0 0", fontSize: "13px", color: "var(--muted)" }}>
-                    Ask about trading concepts
-                </p>
-            </div>
-
-            <div className="chat-messages">
-                {messages.map((message) => (
-                    <MessageBubble
-                        key={message.id}
-                        message={message}
-                        onLessonOptionClick={handleLessonOptionClick}
-                    />
-                ))}
-                {isLoading && (
-                    <div className="message-bubble assistant">
-                        <div className="flex items-center gap-2">
-                            <div className="loading-spinner" style={{ width: 16, height: 16 }} />
-                            <span>Thinking...</span>
-                        </div>
-                    </div>
-                )}
-                <div ref={messagesEndRef} />
-            </div>
-
-            <div className="chat-input-container">
-                <textarea
-                    className="chat-input"
-                    placeholder="Ask about trading concepts..."
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    rows={2}
-                    disabled={isLoading}
-                    style={{ resize: "none" }}
+        <>
+            {showSessions && (
+                <SessionSidebar
+                    sessions={sessions}
+                    currentId={session.id}
+                    disabled={isLoading || restoring}
+                    onNew={startNewSession}
+                    onResume={resumeSession}
+                    onRename={handleRenameSession}
+                    onFork={handleForkSession}
+                    onDelete={handleDeleteSession}
+                    onClose={() => setShowSessions(false)}
                 />
-                <button
-                    onClick={handleSubmit}
-                    disabled={isLoading || !input.trim()}
+            )}
+            <div className="chat-panel">
+                <div
+                    className="chat-header"
                     style={{
-                        marginTop: "8px",
-                        width: "100%",
-                        padding: "10px",
-                        background: input.trim() ? "var(--primary)" : "var(--secondary)",
-                        border: "none",
-                        borderRadius: "8px",
-                        color: input.trim() ? "white" : "var(--muted)",
-                        fontWeight: 500,
-                        cursor: input.trim() ? "pointer" : "not-allowed",
-                        transition: "all 0.2s",
+                        padding: "16px",
+                        borderBottom: "1px solid var(--border)",
+                        display: "flex",
+                        alignItems: "flex-start",
+                        justifyContent: "space-between",
+                        gap: "8px",
                     }}
                 >
-                    {isLoading ? "Sending..." : "Send Message"}
-                </button>
+                    <div>
+                        <h2 style={{ margin: 0, fontSize: "18px", fontWeight: 600 }}>💬 Trading Assistant</h2>
+                        <p style={{ margin: "4px 0 0", fontSize: "13px", color: "var(--muted)" }}>
+                            {hasQuestion ? title : "Ask about trading concepts"}
+                        </p>
+                    </div>
+                    <button
+                        className={`chart-button ${showSessions ? "active" : ""}`}
+                        onClick={() => setShowSessions((shown) => !shown)}
+                        title="Saved sessions"
+                    >
+                        🗂️
+                    </button>
+                </div>
+
+                <div className="chat-messages">
+                    {messages.map((message) => (
+                        <MessageBubble
+                            key={message.id}
+                            message={message}
+                            onLessonOptionClick={handleLessonOptionClick}
+                            onRevertChart={canRevert(message.id) ? () => revertTo(message.id) : undefined}
+                        />
+                    ))}
+                    {isLoading && !isStreaming && (
+                        <div className="message-bubble assistant">
+                            <div className="flex items-center gap-2">
+                                <div className="loading-spinner" style={{ width: 16, height: 16 }} />
+                                <span>{toolStatus ?? "Thinking..."}</span>
+                            </div>
+                        </div>
+                    )}
+                    <div ref={messagesEndRef} />
+                </div>
+
+                <div className="chat-input-container">
+                    <textarea
+                        className="chat-input"
+                        placeholder="Ask about trading concepts..."
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        rows={2}
+                        disabled={isLoading}
+                        style={{ resize: "none" }}
+                    />
+                    <button
+                        onClick={handleSubmit}
+                        disabled={isLoading || !input.trim()}
+                        style={{
+                            marginTop: "8px",
+                            width: "100%",
+                            padding: "10px",
+                            background: input.trim() ? "var(--primary)" : "var(--secondary)",
+                            border: "none",
+                            borderRadius: "8px",
+                            color: input.trim() ? "white" : "var(--muted)",
+                            fontWeight: 500,
+                            cursor: input.trim() ? "pointer" : "not-allowed",
+                            transition: "all 0.2s",
+                        }}
+                    >
+                        {isLoading ? "Sending..." : "Send Message"}
+                    </button>
+                </div>
             </div>
-        </div>
+        </>
     );
 }
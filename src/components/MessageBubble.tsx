@@ -5,10 +5,15 @@ import { ChatMessage, LessonOption } from "@/lib/schema/chartActions";
 interface MessageBubbleProps {
     message: ChatMessage;
     onLessonOptionClick: (option: LessonOption) => void;
+    // Set when the message changed the chart and those changes can be reverted
+    onRevertChart?: () => void;
 }
 
-export function MessageBubble({ message, onLessonOptionClick }: MessageBubbleProps) {
+export function MessageBubble({ message, onLessonOptionClick, onRevertChart }: MessageBubbleProps) {
     const isUser = message.role === "user";
+    const issues = message.actionIssues ?? [];
+    const rejectedCount = issues.filter((issue) => issue.status === "rejected").length;
+    const repairedCount = issues.length - rejectedCount;
 
     // Parse content for special formatting
     const formatContent = (content: string) => {
@@ -79,6 +84,34 @@ export function MessageBubble({ message, onLessonOptionClick }: MessageBubblePro
                     ))}
                 </div>
             )}
+
+            {/* Chart actions that were adjusted to fit the chart or skipped */}
+            {issues.length > 0 && (
+                <details className="action-issues">
+                    <summary>
+                        {[
+                            repairedCount > 0 && `${repairedCount} chart action${repairedCount === 1 ? "" : "s"} adjusted`,
+                            rejectedCount > 0 && `${rejectedCount} skipped`,
+                        ]
+                            .filter(Boolean)
+                            .join(", ")}
+                    </summary>
+                    <ul>
+                        {issues.map((issue, idx) => (
+                            <li key={idx} className={issue.status}>
+                                {issue.lesson ? `${issue.lesson} > ` : ""}
+                                {issue.action}: {issue.message}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            {onRevertChart && (
+                <button className="message-revert" onClick={onRevertChart} title="Undo this message's chart changes">
+                    ↶ Revert chart to before this message
+                </button>
+            )}
         </div>
     );
 }
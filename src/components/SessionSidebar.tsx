@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, KeyboardEvent } from "react";
+import type { SessionSummary } from "@/lib/sessions";
+
+interface SessionSidebarProps {
+    sessions: SessionSummary[];
+    currentId: string;
+    // Switching sessions is blocked while a reply is streaming
+    disabled: boolean;
+    onNew: () => void;
+    onResume: (id: string) => void;
+    onRename: (id: string, title: string) => void;
+    onFork: (id: string) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+function formatUpdated(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function SessionSidebar({
+    sessions,
+    currentId,
+    disabled,
+    onNew,
+    onResume,
+    onRename,
+    onFork,
+    onDelete,
+    onClose,
+}: SessionSidebarProps) {
+    // Session being renamed and its draft title
+    const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+
+    const finishRename = () => {
+        if (editing && editing.title.trim()) onRename(editing.id, editing.title.trim());
+        setEditing(null);
+    };
+
+    const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") finishRename();
+        if (e.key === "Escape") setEditing(null);
+    };
+
+    return (
+        <aside className="session-sidebar">
+            <div className="session-sidebar-header">
+                <span>🗂️ Sessions</span>
+                <button className="chart-button" onClick={onNew} disabled={disabled}>
+                    + New
+                </button>
+                <button className="session-action" onClick={onClose} title="Hide sessions">
+                    ✕
+                </button>
+            </div>
+
+            {sessions.length === 0 && (
+                <p className="session-empty">Saved lessons appear here once you ask a question.</p>
+            )}
+
+            <ul className="session-list">
+                {sessions.map((session) => (
+                    <li key={session.id} className={`session-item ${session.id === currentId ? "active" : ""}`}>
+                        {editing?.id === session.id ? (
+                            <input
+                                className="session-rename-input"
+                                value={editing.title}
+                                onChange={(e) => setEditing({ id: session.id, title: e.target.value })}
+                                onKeyDown={handleRenameKeyDown}
+                                onBlur={finishRename}
+                                maxLength={200}
+                                autoFocus
+                            />
+                        ) : (
+                            <button
+                                className="session-title"
+                                onClick={() => onResume(session.id)}
+                                disabled={disabled || session.id === currentId}
+                                title={session.title}
+                            >
+                                {session.title}
+                            </button>
+                        )}
+                        <div className="session-meta">
+                            {session.messageCount} messages · {formatUpdated(session.updatedAt)}
+                            {session.forkedFrom && " · fork"}
+                        </div>
+                        <div className="session-actions">
+                            <button
+                                className="session-action"
+                                onClick={() => setEditing({ id: session.id, title: session.title })}
+                                title="Rename"
+                            >
+                                ✎
+                            </button>
+                            <button
+                                className="session-action"
+                                onClick={() => onFork(session.id)}
+                                disabled={disabled}
+                                title="Fork: continue a copy of this session"
+                            >
+                                ⑂
+                            </button>
+                            <button
+                                className="session-action danger"
+                                onClick={() => onDelete(session.id)}
+                                disabled={disabled}
+                                title="Delete"
+                            >
+                                🗑
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+}
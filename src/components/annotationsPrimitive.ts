@@ -0,0 +1,272 @@
+import type {
+    IPrimitivePaneRenderer,
+    IPrimitivePaneView,
+    ISeriesPrimitive,
+    Logical,
+    PrimitiveHoveredItem,
+    SeriesAttachedParameter,
+    Time,
+} from "lightweight-charts";
+
+export interface ChartAnnotation {
+    id: string;
+    time: number;
+    // Anchor price; without one the callout points at the bar (high, or line value)
+    price?: number;
+    text: string;
+}
+
+export interface AnnotationsPrimitive extends ISeriesPrimitive<Time> {
+    setAnnotations: (annotations: ChartAnnotation[]) => void;
+    setHovered: (id: string | null) => void;
+    toggleExpanded: (id: string) => void;
+}
+
+interface Anchor {
+    id: string;
+    x: number;
+    y: number;
+    text: string;
+}
+
+interface Rect {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+// Hit areas from the last draw, topmost last
+interface HitBox extends Rect {
+    id: string;
+}
+
+const FONT = "11px sans-serif";
+const PADDING = 4;
+const LINE_HEIGHT = 14;
+// Gap between anchor and callout
+const OFFSET = 18;
+const MAX_COLLAPSED_CHARS = 28;
+const EXPANDED_WIDTH = 220;
+const DOT_RADIUS = 4;
+
+const BOX_COLOR = "rgba(15, 23, 42, 0.92)";
+const BORDER_COLOR = "#f59e0b";
+const TEXT_COLOR = "#f8fafc";
+
+function overlaps(a: Rect, b: Rect): boolean {
+    return (
+        a.left < b.left + b.width && b.left < a.left + a.width && a.top < b.top + b.height && b.top < a.top + a.height
+    );
+}
+
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of text.split(/\s+/)) {
+        const next = line ? `${line} ${word}` : word;
+        if (line && context.measureText(next).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = next;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * Series primitive drawing annotations as callout labels anchored at
+ * time/price in the attached series' pane. Callouts are placed above or
+ * below their anchor, avoiding each other; when there is no free spot the
+ * annotation collapses to a dot that shows its callout on hover. Clicking a
+ * callout toggles the full, wrapped text.
+ */
+export function createAnnotationsPrimitive(): AnnotationsPrimitive {
+    let annotations: ChartAnnotation[] = [];
+    let anchors: Anchor[] = [];
+    let hitBoxes: HitBox[] = [];
+    let hoveredId: string | null = null;
+    const expandedIds = new Set<string>();
+    let attachedParams: SeriesAttachedParameter<Time> | null = null;
+
+    const renderer: IPrimitivePaneRenderer = {
+        draw: (target) => {
+            target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+                context.font = FONT;
+                context.textBaseline = "top";
+                hitBoxes = [];
+
+                // Hovered and expanded callouts get first pick of positions
+                const isPriority = (a: Anchor) => a.id === hoveredId || expandedIds.has(a.id);
+                const ordered = [...anchors].sort(
+                    (a, b) => Number(isPriority(b)) - Number(isPriority(a)) || a.x - b.x
+                );
+
+                const placed: Rect[] = [];
+                const callouts: { anchor: Anchor; rect: Rect; lines: string[] }[] = [];
+                const dots: Anchor[] = [];
+
+                for (const anchor of ordered) {
+                    const expanded = expandedIds.has(anchor.id);
+                    const lines = expanded
+                        ? wrapText(context, anchor.text, EXPANDED_WIDTH)
+                        : [
+                              anchor.text.length > MAX_COLLAPSED_CHARS
+                                  ? `${anchor.text.slice(0, MAX_COLLAPSED_CHARS - 1)}…`
+                                  : anchor.text,
+                          ];
+                    const width = Math.max(...lines.map((l) => context.measureText(l).width)) + PADDING * 2;
+                    const height = lines.length * LINE_HEIGHT + PADDING * 2;
+                    const left = Math.min(Math.max(anchor.x - width / 2, 0), Math.max(mediaSize.width - width, 0));
+
+                    // Above, below, then one step further out on each side
+                    const tops = [
+                        anchor.y - OFFSET - height,
+                        anchor.y + OFFSET,
+                        anchor.y - OFFSET - height * 2 - PADDING,
+                        anchor.y + OFFSET + height + PADDING,
+                    ];
+                    const fits = (top: number) => {
+                        const rect = { left, top, width, height };
+                        return top >= 0 && top + height <= mediaSize.height && !placed.some((p) => overlaps(p, rect));
+                    };
+                    let top = tops.find(fits);
+
+                    if (top === undefined) {
+                        if (!isPriority(anchor)) {
+                            dots.push(anchor);
+                            continue;
+                        }
+                        top = Math.min(Math.max(tops[0], 0), Math.max(mediaSize.height - height, 0));
+                    }
+
+                    const rect = { left, top, width, height };
+                    placed.push(rect);
+                    callouts.push({ anchor, rect, lines });
+                }
+
+                for (const dot of dots) {
+                    context.fillStyle = BORDER_COLOR;
+                    context.beginPath();
+                    context.arc(dot.x, dot.y, DOT_RADIUS, 0, Math.PI * 2);
+                    context.fill();
+                    hitBoxes.push({
+                        id: dot.id,
+                        left: dot.x - DOT_RADIUS * 2,
+                        top: dot.y - DOT_RADIUS * 2,
+                        width: DOT_RADIUS * 4,
+                        height: DOT_RADIUS * 4,
+                    });
+                }
+
+                // Priority callouts were placed first; draw them last so they sit on top
+                for (const { anchor, rect, lines } of [...callouts].reverse()) {
+                    const edge = rect.top > anchor.y ? rect.top : rect.top + rect.height;
+                    context.strokeStyle = BORDER_COLOR;
+                    context.lineWidth = 1;
+                    context.beginPath();
+                    context.moveTo(anchor.x, anchor.y);
+                    context.lineTo(Math.min(Math.max(anchor.x, rect.left), rect.left + rect.width), edge);
+                    context.stroke();
+
+                    context.fillStyle = BOX_COLOR;
+                    context.fillRect(rect.left, rect.top, rect.width, rect.height);
+                    context.strokeRect(rect.left + 0.5, rect.top + 0.5, rect.width - 1, rect.height - 1);
+
+                    context.fillStyle = TEXT_COLOR;
+                    lines.forEach((line, i) => {
+                        context.fillText(line, rect.left + PADDING, rect.top + PADDING + i * LINE_HEIGHT);
+                    });
+
+                    // The anchor stays hoverable too, so a callout revealed from a
+                    // dot does not collapse again as soon as the pointer moves
+                    hitBoxes.push({
+                        id: anchor.id,
+                        left: anchor.x - DOT_RADIUS * 2,
+                        top: anchor.y - DOT_RADIUS * 2,
+                        width: DOT_RADIUS * 4,
+                        height: DOT_RADIUS * 4,
+                    });
+                    hitBoxes.push({ id: anchor.id, ...rect });
+                }
+            });
+        },
+    };
+
+    const paneView: IPrimitivePaneView = {
+        zOrder: () => "top",
+        renderer: () => (anchors.length > 0 ? renderer : null),
+    };
+    const paneViews = [paneView];
+
+    const updateAllViews = () => {
+        anchors = [];
+        if (!attachedParams) return;
+
+        const { chart, series } = attachedParams;
+        const timeScale = chart.timeScale();
+        for (const annotation of annotations) {
+            const index = timeScale.timeToIndex(annotation.time as Time, true);
+            if (index === null) continue;
+            const x = timeScale.logicalToCoordinate(index as unknown as Logical);
+
+            // Without a price, point at the top of the bar (or the line value)
+            let price = annotation.price;
+            if (price === undefined) {
+                const bar = series.dataByIndex(index);
+                if (bar && "high" in bar) price = bar.high;
+                else if (bar && "value" in bar) price = bar.value;
+            }
+            const y = price !== undefined ? series.priceToCoordinate(price) : null;
+            if (x === null || y === null) continue;
+
+            anchors.push({ id: annotation.id, x, y, text: annotation.text });
+        }
+    };
+
+    const refresh = () => {
+        updateAllViews();
+        attachedParams?.requestUpdate();
+    };
+
+    return {
+        setAnnotations: (next) => {
+            annotations = next;
+            for (const id of expandedIds) {
+                if (!next.some((a) => a.id === id)) expandedIds.delete(id);
+            }
+            refresh();
+        },
+        setHovered: (id) => {
+            const next = id && annotations.some((a) => a.id === id) ? id : null;
+            if (next === hoveredId) return;
+            hoveredId = next;
+            refresh();
+        },
+        toggleExpanded: (id) => {
+            if (!annotations.some((a) => a.id === id)) return;
+            if (expandedIds.has(id)) expandedIds.delete(id);
+            else expandedIds.add(id);
+            refresh();
+        },
+        attached: (params) => {
+            attachedParams = params;
+        },
+        detached: () => {
+            attachedParams = null;
+        },
+        updateAllViews,
+        paneViews: () => paneViews,
+        hitTest: (x, y): PrimitiveHoveredItem | null => {
+            for (let i = hitBoxes.length - 1; i >= 0; i--) {
+                const box = hitBoxes[i];
+                if (x >= box.left && x <= box.left + box.width && y >= box.top && y <= box.top + box.height) {
+                    return { externalId: box.id, zOrder: "top", cursorStyle: "pointer" };
+                }
+            }
+            return null;
+        },
+    };
+}
@@ -0,0 +1,225 @@
+import type {
+    IPrimitivePaneRenderer,
+    IPrimitivePaneView,
+    ISeriesPrimitive,
+    Logical,
+    SeriesAttachedParameter,
+    Time,
+} from "lightweight-charts";
+import type { Drawing } from "@/lib/schema/chartActions";
+import { FIB_LEVELS, fibonacciPrice } from "@/lib/drawings";
+
+export type DrawingShape = Omit<Drawing, "id">;
+
+export interface DrawingsPrimitive extends ISeriesPrimitive<Time> {
+    setDrawings: (drawings: DrawingShape[]) => void;
+    // Drawing in progress, following the pointer
+    setPreview: (drawing: DrawingShape | null) => void;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+// A drawing converted to media coordinates
+interface DrawingView {
+    shape: DrawingShape;
+    points: Point[];
+    // Fibonacci levels: y coordinate and label
+    levels: { y: number; text: string }[];
+    preview: boolean;
+}
+
+const DEFAULT_COLOR = "#38bdf8";
+const FONT = "11px sans-serif";
+const HANDLE_RADIUS = 3;
+
+function formatPrice(price: number): string {
+    return price >= 1000 ? price.toFixed(2) : price.toPrecision(6);
+}
+
+/**
+ * Series primitive drawing trendlines, rays, horizontal lines, rectangles and
+ * Fibonacci retracements. Points are stored as time/price and converted on
+ * every update, so drawings follow zoom and scroll. Times outside the loaded
+ * bars are extrapolated from the bar spacing.
+ */
+export function createDrawingsPrimitive(): DrawingsPrimitive {
+    let drawings: DrawingShape[] = [];
+    let preview: DrawingShape | null = null;
+    let views: DrawingView[] = [];
+    let attachedParams: SeriesAttachedParameter<Time> | null = null;
+
+    const renderer: IPrimitivePaneRenderer = {
+        draw: (target) => {
+            target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+                context.font = FONT;
+                context.textBaseline = "bottom";
+
+                for (const view of views) {
+                    const { shape, points } = view;
+                    const color = shape.color ?? DEFAULT_COLOR;
+                    context.strokeStyle = color;
+                    context.fillStyle = color;
+                    context.lineWidth = shape.type === "fibonacci" ? 1 : 2;
+                    context.setLineDash(view.preview ? [4, 4] : []);
+
+                    const [a, b] = points;
+                    switch (shape.type) {
+                        case "trendline":
+                        case "ray": {
+                            if (!a || !b) break;
+                            let end = b;
+                            if (shape.type === "ray" && (a.x !== b.x || a.y !== b.y)) {
+                                // Extend past b to the pane edge
+                                const scale = Math.max(mediaSize.width, mediaSize.height) * 4;
+                                const length = Math.hypot(b.x - a.x, b.y - a.y);
+                                end = {
+                                    x: a.x + ((b.x - a.x) / length) * scale,
+                                    y: a.y + ((b.y - a.y) / length) * scale,
+                                };
+                            }
+                            context.beginPath();
+                            context.moveTo(a.x, a.y);
+                            context.lineTo(end.x, end.y);
+                            context.stroke();
+                            break;
+                        }
+                        case "horizontal_line": {
+                            if (!a) break;
+                            context.beginPath();
+                            context.moveTo(0, a.y);
+                            context.lineTo(mediaSize.width, a.y);
+                            context.stroke();
+                            break;
+                        }
+                        case "rectangle": {
+                            if (!a || !b) break;
+                            context.globalAlpha = 0.15;
+                            context.fillRect(a.x, a.y, b.x - a.x, b.y - a.y);
+                            context.globalAlpha = 1;
+                            context.strokeRect(a.x, a.y, b.x - a.x, b.y - a.y);
+                            break;
+                        }
+                        case "fibonacci": {
+                            if (!a || !b) break;
+                            const left = Math.min(a.x, b.x);
+                            for (const level of view.levels) {
+                                context.beginPath();
+                                context.moveTo(left, level.y);
+                                context.lineTo(mediaSize.width, level.y);
+                                context.stroke();
+                                context.fillText(level.text, left + 4, level.y - 2);
+                            }
+                            // The swing the retracement is measured on
+                            context.setLineDash([2, 3]);
+                            context.beginPath();
+                            context.moveTo(a.x, a.y);
+                            context.lineTo(b.x, b.y);
+                            context.stroke();
+                            break;
+                        }
+                    }
+
+                    context.setLineDash([]);
+                    if (shape.type !== "horizontal_line") {
+                        for (const point of points) {
+                            context.beginPath();
+                            context.arc(point.x, point.y, HANDLE_RADIUS, 0, Math.PI * 2);
+                            context.fill();
+                        }
+                    }
+
+                    const labelAnchor = points[points.length - 1];
+                    if (shape.label && labelAnchor) {
+                        const x = shape.type === "horizontal_line" ? 4 : labelAnchor.x + 6;
+                        context.fillText(shape.label, x, labelAnchor.y - 4);
+                    }
+                }
+            });
+        },
+    };
+
+    const paneView: IPrimitivePaneView = {
+        zOrder: () => "top",
+        renderer: () => (views.length > 0 ? renderer : null),
+    };
+    const paneViews = [paneView];
+
+    const updateAllViews = () => {
+        views = [];
+        if (!attachedParams) return;
+
+        const { chart, series } = attachedParams;
+        const timeScale = chart.timeScale();
+        const data = series.data();
+        if (data.length === 0) return;
+
+        const firstTime = data[0].time as number;
+        const lastTime = data[data.length - 1].time as number;
+        const step = data.length > 1 ? lastTime - (data[data.length - 2].time as number) : 1;
+
+        const toX = (time: number): number | null => {
+            let logical: number | null;
+            if (time > lastTime) {
+                logical = data.length - 1 + (time - lastTime) / step;
+            } else if (time < firstTime) {
+                logical = (time - firstTime) / step;
+            } else {
+                logical = timeScale.timeToIndex(time as Time, true);
+            }
+            return logical === null ? null : timeScale.logicalToCoordinate(logical as Logical);
+        };
+
+        const shapes = preview ? [...drawings, preview] : drawings;
+        for (const shape of shapes) {
+            const points: Point[] = [];
+            for (const point of shape.points) {
+                const x = toX(point.time);
+                const y = series.priceToCoordinate(point.price);
+                if (x === null || y === null) break;
+                points.push({ x, y });
+            }
+            if (points.length < shape.points.length) continue;
+
+            const levels: DrawingView["levels"] = [];
+            if (shape.type === "fibonacci" && shape.points.length === 2) {
+                const [start, end] = shape.points;
+                for (const level of FIB_LEVELS) {
+                    const price = fibonacciPrice(start, end, level);
+                    const y = series.priceToCoordinate(price);
+                    if (y !== null) {
+                        levels.push({ y, text: `${(level * 100).toFixed(1)}% (${formatPrice(price)})` });
+                    }
+                }
+            }
+
+            views.push({ shape, points, levels, preview: shape === preview });
+        }
+    };
+
+    const refresh = () => {
+        updateAllViews();
+        attachedParams?.requestUpdate();
+    };
+
+    return {
+        setDrawings: (next) => {
+            drawings = next;
+            refresh();
+        },
+        setPreview: (next) => {
+            preview = next;
+            refresh();
+        },
+        attached: (params) => {
+            attachedParams = params;
+        },
+        detached: () => {
+            attachedParams = null;
+        },
+        updateAllViews,
+        paneViews: () => paneViews,
+    };
+}
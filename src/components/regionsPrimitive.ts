@@ -0,0 +1,110 @@
+import type {
+    IPrimitivePaneRenderer,
+    IPrimitivePaneView,
+    ISeriesPrimitive,
+    Logical,
+    SeriesAttachedParameter,
+    Time,
+} from "lightweight-charts";
+
+export interface ShadedRegion {
+    fromTime: number;
+    toTime: number;
+    label?: string;
+}
+
+export interface RegionsPrimitive extends ISeriesPrimitive<Time> {
+    setRegions: (regions: ShadedRegion[]) => void;
+}
+
+// Band as drawn: x coordinates in media pixels
+interface RegionBox {
+    left: number;
+    right: number;
+    label?: string;
+}
+
+const FILL_COLOR = "rgba(59, 130, 246, 0.12)";
+const EDGE_COLOR = "rgba(59, 130, 246, 0.45)";
+const LABEL_COLOR = "#93c5fd";
+
+/**
+ * Series primitive that shades time bands behind the series it is attached
+ * to, across the full height of that series' pane. Bands snap to whole bars
+ * and are clipped to the loaded data.
+ */
+export function createRegionsPrimitive(): RegionsPrimitive {
+    let regions: ShadedRegion[] = [];
+    let boxes: RegionBox[] = [];
+    let attachedParams: SeriesAttachedParameter<Time> | null = null;
+
+    const renderer: IPrimitivePaneRenderer = {
+        draw: () => {},
+        drawBackground: (target) => {
+            target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+                context.font = "11px sans-serif";
+                context.textBaseline = "top";
+                for (const box of boxes) {
+                    const width = Math.max(box.right - box.left, 1);
+                    context.fillStyle = FILL_COLOR;
+                    context.fillRect(box.left, 0, width, mediaSize.height);
+                    context.fillStyle = EDGE_COLOR;
+                    context.fillRect(box.left, 0, 1, mediaSize.height);
+                    context.fillRect(box.left + width - 1, 0, 1, mediaSize.height);
+                    if (box.label) {
+                        context.fillStyle = LABEL_COLOR;
+                        context.fillText(box.label, box.left + 4, 4);
+                    }
+                }
+            });
+        },
+    };
+
+    const paneView: IPrimitivePaneView = {
+        zOrder: () => "bottom",
+        renderer: () => (boxes.length > 0 ? renderer : null),
+    };
+    const paneViews = [paneView];
+
+    const updateAllViews = () => {
+        boxes = [];
+        if (!attachedParams) return;
+
+        const data = attachedParams.series.data();
+        if (data.length === 0) return;
+        const firstTime = data[0].time as number;
+        const lastTime = data[data.length - 1].time as number;
+        const timeScale = attachedParams.chart.timeScale();
+
+        for (const region of regions) {
+            if (region.toTime < firstTime || region.fromTime > lastTime) continue;
+
+            const fromIndex = timeScale.timeToIndex(Math.max(region.fromTime, firstTime) as Time, true);
+            const toIndex = timeScale.timeToIndex(Math.min(region.toTime, lastTime) as Time, true);
+            if (fromIndex === null || toIndex === null) continue;
+
+            // Half a bar either side so the band covers the first and last candles
+            const left = timeScale.logicalToCoordinate((fromIndex - 0.5) as Logical);
+            const right = timeScale.logicalToCoordinate((toIndex + 0.5) as Logical);
+            if (left === null || right === null) continue;
+
+            boxes.push({ left, right, label: region.label });
+        }
+    };
+
+    return {
+        setRegions: (next) => {
+            regions = next;
+            updateAllViews();
+            attachedParams?.requestUpdate();
+        },
+        attached: (params) => {
+            attachedParams = params;
+        },
+        detached: () => {
+            attachedParams = null;
+        },
+        updateAllViews,
+        paneViews: () => paneViews,
+    };
+}
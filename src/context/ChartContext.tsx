@@ -1,42 +1,77 @@
 "use client";
 
-import React, { createContext, useContext, useReducer, useCallback, ReactNode } from "react";
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef, ReactNode } from "react";
 import {
     ChartContextState,
     ChartAction,
     Candle,
     Timeframe,
+    TimeframeSchema,
     IndicatorConfig,
+    IndicatorType,
     HighlightPoint,
+    HighlightRegion,
     Annotation,
+    MarketStructureConfig,
+    Drawing,
 } from "@/lib/schema/chartActions";
+import type { CandleUpdate } from "@/lib/market/types";
+import { createIndicatorId, resolveIndicatorParams } from "@/lib/indicatorRegistry";
+import { DrawingType, createDrawingId, drawingFromAction } from "@/lib/drawings";
+import {
+    HistoryStep,
+    MAX_HISTORY_STEPS,
+    actionsLabel,
+    restoreSnapshot,
+    sameChart,
+    takeSnapshot,
+} from "@/lib/chartHistory";
+import type { ViewRange } from "@/lib/chartLink";
+import { maxCandleSeconds } from "@/lib/timeframes";
 
 // Initial state
 const initialState: ChartContextState = {
     symbol: "BTCUSDT",
     timeframe: "1d",
     candles: [],
+    candleRange: null,
     indicators: [],
     visibleFrom: null,
     visibleTo: null,
     highlights: [],
+    regions: [],
     annotations: [],
     isLoading: false,
+    isLive: true,
+    showPatterns: false,
+    marketStructure: null,
+    drawings: [],
+    drawingTool: null,
 };
 
 // Internal actions for the reducer
 type InternalAction =
     | { type: "SET_SYMBOL"; symbol: string }
     | { type: "SET_TIMEFRAME"; timeframe: Timeframe }
-    | { type: "SET_CANDLES"; candles: Candle[] }
+    | { type: "SET_CANDLES"; candles: Candle[]; range: CandleRange | null }
+    | { type: "PREPEND_CANDLES"; symbol: string; timeframe: Timeframe; candles: Candle[] }
+    | { type: "UPSERT_CANDLE"; symbol: string; timeframe: Timeframe; candle: Candle }
+    | { type: "SET_LIVE"; isLive: boolean }
+    | { type: "SET_SHOW_PATTERNS"; showPatterns: boolean }
+    | { type: "SET_MARKET_STRUCTURE"; config: MarketStructureConfig | null }
     | { type: "SET_LOADING"; isLoading: boolean }
-    | { type: "ADD_INDICATOR"; indicator: IndicatorConfig }
-    | { type: "UPDATE_INDICATOR_PARAMS"; indicatorName: string; params: Record<string, number> }
-    | { type: "REMOVE_INDICATOR"; indicatorName: string }
+    | { type: "ADD_INDICATOR"; id?: string; indicator: Omit<IndicatorConfig, "id"> }
+    | { type: "UPDATE_INDICATOR_PARAMS"; id?: string; indicatorName: IndicatorType; params: Record<string, number> }
+    | { type: "REMOVE_INDICATOR"; id?: string; indicatorName?: IndicatorType }
     | { type: "CLEAR_INDICATORS" }
     | { type: "ADD_HIGHLIGHTS"; points: HighlightPoint[] }
+    | { type: "ADD_REGION"; region: HighlightRegion }
     | { type: "ADD_ANNOTATION"; annotation: Annotation }
     | { type: "CLEAR_HIGHLIGHTS" }
+    | { type: "ADD_DRAWING"; drawing: Omit<Drawing, "id"> }
+    | { type: "REMOVE_DRAWING"; id: string }
+    | { type: "CLEAR_DRAWINGS" }
+    | { type: "SET_DRAWING_TOOL"; tool: DrawingType | null }
     | { type: "SET_VISIBLE_RANGE"; from: number; to: number };
 
 // Reducer
@@ -47,40 +82,120 @@ function chartReducer(state: ChartContextState, action: InternalAction): ChartCo
         case "SET_TIMEFRAME":
             return { ...state, timeframe: action.timeframe };
         case "SET_CANDLES":
-            return { ...state, candles: action.candles };
+            return { ...state, candles: action.candles, candleRange: action.range };
+        case "PREPEND_CANDLES": {
+            // Drop backfill for a previous symbol/timeframe; otherwise only keep
+            // candles strictly older than what is already loaded
+            if (action.symbol !== state.symbol || action.timeframe !== state.timeframe) return state;
+            const firstTime = state.candles[0]?.time ?? Infinity;
+            const older = action.candles.filter((c) => c.time < firstTime);
+            return older.length > 0 ? { ...state, candles: [...older, ...state.candles] } : state;
+        }
+        case "UPSERT_CANDLE": {
+            // Drop updates for a previous symbol/timeframe, while a load is in flight and
+            // on a chart of a past window. Only the last bar or the one right after it is
+            // taken, so a stale chart never gets today's bar appended after a gap.
+            const last = state.candles[state.candles.length - 1];
+            const { time } = action.candle;
+            if (
+                state.isLoading ||
+                !last ||
+                state.candleRange?.to !== undefined ||
+                action.symbol !== state.symbol ||
+                action.timeframe !== state.timeframe ||
+                !(time === last.time || (time > last.time && time <= last.time + maxCandleSeconds(state.timeframe)))
+            ) {
+                return state;
+            }
+            const candles =
+                time === last.time
+                    ? [...state.candles.slice(0, -1), action.candle]
+                    : [...state.candles, action.candle];
+            return { ...state, candles };
+        }
+        case "SET_LIVE":
+            return { ...state, isLive: action.isLive };
+        case "SET_SHOW_PATTERNS":
+            return { ...state, showPatterns: action.showPatterns };
+        case "SET_MARKET_STRUCTURE":
+            return { ...state, marketStructure: action.config };
         case "SET_LOADING":
             return { ...state, isLoading: action.isLoading };
-        case "ADD_INDICATOR":
-            // Check if indicator already exists
-            if (state.indicators.some((i) => i.name === action.indicator.name)) {
+        case "ADD_INDICATOR": {
+            const { id, indicator } = action;
+            // An explicit id that already exists re-configures that instance; it
+            // can't become another indicator type
+            const existing = id ? state.indicators.find((i) => i.id === id) : undefined;
+            if (existing) {
+                if (existing.name !== indicator.name) return state;
                 return {
                     ...state,
-                    indicators: state.indicators.map((i) =>
-                        i.name === action.indicator.name ? action.indicator : i
-                    ),
+                    indicators: state.indicators.map((i) => (i.id === id ? { ...indicator, id } : i)),
                 };
             }
-            return { ...state, indicators: [...state.indicators, action.indicator] };
-        case "UPDATE_INDICATOR_PARAMS":
+            // Re-adding an identical instance without an id is a no-op
+            const duplicate =
+                !id &&
+                state.indicators.some(
+                    (i) =>
+                        i.name === indicator.name &&
+                        JSON.stringify(i.params) === JSON.stringify(indicator.params)
+                );
+            if (duplicate) return state;
+
+            const newId =
+                id ||
+                createIndicatorId(
+                    indicator.name,
+                    indicator.params,
+                    state.indicators.map((i) => i.id)
+                );
+            return { ...state, indicators: [...state.indicators, { ...indicator, id: newId }] };
+        }
+        case "UPDATE_INDICATOR_PARAMS": {
+            // Target the named instance, or the latest instance of the type;
+            // params for one type never go to an instance of another
+            const target = action.id
+                ? state.indicators.find((i) => i.id === action.id && i.name === action.indicatorName)?.id
+                : [...state.indicators].reverse().find((i) => i.name === action.indicatorName)?.id;
+            // Merge so a partial update keeps the other params
             return {
                 ...state,
                 indicators: state.indicators.map((i) =>
-                    i.name === action.indicatorName ? { ...i, params: action.params } : i
+                    i.id === target ? { ...i, params: { ...i.params, ...action.params } } : i
                 ),
             };
+        }
         case "REMOVE_INDICATOR":
             return {
                 ...state,
-                indicators: state.indicators.filter((i) => i.name !== action.indicatorName),
+                indicators: state.indicators.filter((i) =>
+                    action.id ? i.id !== action.id : i.name !== action.indicatorName
+                ),
             };
         case "CLEAR_INDICATORS":
             return { ...state, indicators: [] };
         case "ADD_HIGHLIGHTS":
             return { ...state, highlights: [...state.highlights, ...action.points] };
+        case "ADD_REGION":
+            return { ...state, regions: [...state.regions, action.region] };
         case "ADD_ANNOTATION":
             return { ...state, annotations: [...state.annotations, action.annotation] };
         case "CLEAR_HIGHLIGHTS":
-            return { ...state, highlights: [], annotations: [] };
+            return { ...state, highlights: [], regions: [], annotations: [], marketStructure: null };
+        case "ADD_DRAWING": {
+            const id = createDrawingId(
+                action.drawing.type,
+                state.drawings.map((d) => d.id)
+            );
+            return { ...state, drawings: [...state.drawings, { ...action.drawing, id }] };
+        }
+        case "REMOVE_DRAWING":
+            return { ...state, drawings: state.drawings.filter((d) => d.id !== action.id) };
+        case "CLEAR_DRAWINGS":
+            return { ...state, drawings: [] };
+        case "SET_DRAWING_TOOL":
+            return { ...state, drawingTool: action.tool };
         case "SET_VISIBLE_RANGE":
             return { ...state, visibleFrom: action.from, visibleTo: action.to };
         default:
@@ -88,49 +203,248 @@ function chartReducer(state: ChartContextState, action: InternalAction): ChartCo
     }
 }
 
+// Chart state with its undo/redo history
+interface HistoryState {
+    chart: ChartContextState;
+    past: HistoryStep[];
+    future: HistoryStep[];
+    // Bumped when undo/redo goes back to the latest candles of another
+    // symbol or timeframe; the snapshot's candles are shown until refreshed
+    refreshes: number;
+}
+
+type HistoryAction =
+    | InternalAction
+    // Record the chart as it is now as an undoable step
+    | { type: "CHECKPOINT"; label: string; tag?: string }
+    | { type: "UNDO" }
+    | { type: "REDO" }
+    // Go back to before the latest step with this tag, as a new undoable step
+    | { type: "REVERT"; tag: string }
+    // Start over with the initial chart and no history
+    | { type: "RESET" };
+
+function applyStep(
+    history: HistoryState,
+    step: HistoryStep,
+    stacks: Pick<HistoryState, "past" | "future">
+): HistoryState {
+    const chart = restoreSnapshot(history.chart, step.snapshot);
+    const refresh = chart.candles !== history.chart.candles && chart.candleRange === null;
+    return { ...history, ...stacks, chart, refreshes: history.refreshes + (refresh ? 1 : 0) };
+}
+
+function historyReducer(history: HistoryState, action: HistoryAction): HistoryState {
+    switch (action.type) {
+        case "CHECKPOINT": {
+            const step = { label: action.label, tag: action.tag, snapshot: takeSnapshot(history.chart) };
+            return { ...history, past: [...history.past, step].slice(-MAX_HISTORY_STEPS), future: [] };
+        }
+        case "UNDO": {
+            const current = takeSnapshot(history.chart);
+            // Skip steps that changed nothing, e.g. a batch of no-op actions
+            const past = [...history.past];
+            while (past.length > 0 && sameChart(past[past.length - 1].snapshot, current)) past.pop();
+            const step = past.pop();
+            if (!step) return { ...history, past };
+            return applyStep(history, step, { past, future: [...history.future, { ...step, snapshot: current }] });
+        }
+        case "REDO": {
+            const future = [...history.future];
+            const step = future.pop();
+            if (!step) return history;
+            const current = takeSnapshot(history.chart);
+            return applyStep(history, step, { past: [...history.past, { ...step, snapshot: current }], future });
+        }
+        case "REVERT": {
+            const step = [...history.past].reverse().find((s) => s.tag === action.tag);
+            if (!step) return history;
+            const revert = { label: `Revert ${step.label}`, snapshot: takeSnapshot(history.chart) };
+            return applyStep(history, step, {
+                past: [...history.past, revert].slice(-MAX_HISTORY_STEPS),
+                future: [],
+            });
+        }
+        case "RESET":
+            return { ...history, chart: initialState, past: [], future: [] };
+        default: {
+            const chart = chartReducer(history.chart, action);
+            return chart === history.chart ? history : { ...history, chart };
+        }
+    }
+}
+
+// A batch of actions recorded as one undo step
+export interface HistoryStepOptions {
+    label?: string;
+    tag?: string;
+}
+
 // Context interface
 interface ChartContextValue {
     state: ChartContextState;
     dispatch: React.Dispatch<InternalAction>;
+    // Runs an action without recording it; call checkpoint first for an undo step
     executeAction: (action: ChartAction) => Promise<void>;
-    executeActions: (actions: ChartAction[]) => Promise<void>;
-    loadCandles: (symbol?: string, timeframe?: Timeframe) => Promise<void>;
+    // Runs actions as one undo step
+    executeActions: (actions: ChartAction[], step?: HistoryStepOptions) => Promise<void>;
+    loadCandles: (symbol?: string, timeframe?: Timeframe, range?: CandleRange) => Promise<void>;
+    loadOlderCandles: () => Promise<void>;
+    // Record the chart as it is now, before a change the user may want to undo
+    checkpoint: (label: string, tag?: string) => void;
+    undo: () => void;
+    redo: () => void;
+    // Labels of the steps undo and redo would apply, null when there are none
+    undoLabel: string | null;
+    redoLabel: string | null;
+    // Restore the chart to before the latest step with this tag (e.g. a chat message id)
+    revertTo: (tag: string) => void;
+    canRevert: (tag: string) => boolean;
+    // Replace the chart and its history with one built by replaying actions (the default chart without)
+    loadChart: (actions?: ChartAction[]) => Promise<void>;
+    // Range on screen, kept current by the chart canvas without re-rendering (for share links)
+    viewRangeRef: React.MutableRefObject<ViewRange | null>;
+}
+
+// Optional unix-seconds window for loadCandles
+export interface CandleRange {
+    from?: number;
+    to?: number;
+}
+
+// Candles fetched per left-edge backfill
+const BACKFILL_LIMIT = 500;
+
+// Market structure overlay defaults
+export const DEFAULT_PIVOT_LOOKBACK = 5;
+export const DEFAULT_MAX_ZONES = 6;
+
+// Without a limit the route picks its own default (the whole window for closed ranges)
+function candlesUrl(symbol: string, timeframe: Timeframe, limit?: number, range?: CandleRange) {
+    let url = `/api/market-data/candles?symbol=${symbol}&timeframe=${timeframe}`;
+    if (limit !== undefined) url += `&limit=${limit}`;
+    if (range?.from !== undefined) url += `&from=${range.from}`;
+    if (range?.to !== undefined) url += `&to=${range.to}`;
+    return url;
 }
 
 const ChartContext = createContext<ChartContextValue | null>(null);
 
 // Provider component
-export function ChartProvider({ children }: { children: ReactNode }) {
-    const [state, dispatch] = useReducer(chartReducer, initialState);
+/**
+ * `initialActions` rebuild a shared chart on first load (see chartLink.ts);
+ * without them the default chart loads
+ */
+export function ChartProvider({ children, initialActions }: { children: ReactNode; initialActions?: ChartAction[] }) {
+    const [history, dispatch] = useReducer(historyReducer, {
+        chart: initialState,
+        past: [],
+        future: [],
+        refreshes: 0,
+    });
+    const state = history.chart;
+    // Backfill bookkeeping; refs so scroll handlers don't re-render the tree
+    const historyLoadingRef = useRef(false);
+    const historyExhaustedRef = useRef(false);
+    const viewRangeRef = useRef<ViewRange | null>(null);
+    // Only the latest full load may set candles, so a slow earlier response can't overwrite it
+    const loadIdRef = useRef(0);
 
     // Load candles from API
     const loadCandles = useCallback(
-        async (symbol?: string, timeframe?: Timeframe) => {
+        async (symbol?: string, timeframe?: Timeframe, range?: CandleRange) => {
             const targetSymbol = symbol || state.symbol;
             const targetTimeframe = timeframe || state.timeframe;
+            const loadId = ++loadIdRef.current;
 
             dispatch({ type: "SET_LOADING", isLoading: true });
 
             try {
-                const response = await fetch(
-                    `/api/market-data/candles?symbol=${targetSymbol}&timeframe=${targetTimeframe}&limit=500`
-                );
+                // "no-cache" revalidates against the route's ETag, so unchanged
+                // candles come back as a cheap 304 from the browser cache
+                const isClosedRange = range?.from !== undefined && range?.to !== undefined;
+                const limit = isClosedRange ? undefined : 500;
+                const response = await fetch(candlesUrl(targetSymbol, targetTimeframe, limit, range), {
+                    cache: "no-cache",
+                });
 
                 if (!response.ok) {
                     throw new Error("Failed to fetch candles");
                 }
 
                 const data = await response.json();
-                dispatch({ type: "SET_CANDLES", candles: data.candles });
+                if (loadId !== loadIdRef.current) return;
+                const hasRange = range?.from !== undefined || range?.to !== undefined;
+                dispatch({ type: "SET_CANDLES", candles: data.candles, range: hasRange ? range : null });
+                historyExhaustedRef.current = false;
             } catch (error) {
                 console.error("Error loading candles:", error);
             } finally {
-                dispatch({ type: "SET_LOADING", isLoading: false });
+                if (loadId === loadIdRef.current) dispatch({ type: "SET_LOADING", isLoading: false });
             }
         },
         [state.symbol, state.timeframe]
     );
 
+    // Merge live kline updates from the stream route into the loaded candles
+    // A chart ending at a past time has nothing to stream
+    const { symbol: liveSymbol, timeframe: liveTimeframe, isLive } = state;
+    const isHistorical = state.candleRange?.to !== undefined;
+    useEffect(() => {
+        if (!isLive || isHistorical) return;
+
+        const source = new EventSource(
+            `/api/market-data/stream?symbol=${liveSymbol}&timeframe=${liveTimeframe}`
+        );
+
+        source.addEventListener("candle", (event) => {
+            const update: CandleUpdate = JSON.parse((event as MessageEvent).data);
+            dispatch({
+                type: "UPSERT_CANDLE",
+                symbol: liveSymbol,
+                timeframe: liveTimeframe,
+                candle: update.candle,
+            });
+        });
+        source.addEventListener("error", (event) => {
+            // Server-sent error events carry data; connection errors retry automatically
+            const data = (event as MessageEvent).data;
+            if (data) console.error("Candle stream error:", JSON.parse(data).message);
+        });
+
+        return () => source.close();
+    }, [liveSymbol, liveTimeframe, isLive, isHistorical]);
+
+    // Backfill history before the first loaded candle (used when scrolling left)
+    const loadOlderCandles = useCallback(async () => {
+        const first = state.candles[0];
+        if (!first || historyLoadingRef.current || historyExhaustedRef.current) return;
+
+        const symbol = state.symbol;
+        const timeframe = state.timeframe;
+        const loadId = loadIdRef.current;
+        historyLoadingRef.current = true;
+        try {
+            const response = await fetch(candlesUrl(symbol, timeframe, BACKFILL_LIMIT, { to: first.time - 1 }));
+
+            if (!response.ok) {
+                throw new Error("Failed to fetch older candles");
+            }
+
+            const data = await response.json();
+            // A full load since the request started replaced the chart; this history belongs to the old one
+            if (loadId !== loadIdRef.current) return;
+            if (data.candles.length === 0) {
+                historyExhaustedRef.current = true;
+            }
+            dispatch({ type: "PREPEND_CANDLES", symbol, timeframe, candles: data.candles });
+        } catch (error) {
+            console.error("Error loading older candles:", error);
+        } finally {
+            historyLoadingRef.current = false;
+        }
+    }, [state.candles, state.symbol, state.timeframe]);
+
     // Execute a single chart action
     const executeAction = useCallback(
         async (action: ChartAction) => {
@@ -145,55 +459,62 @@ export function ChartProvider({ children }: { children: ReactNode }) {
                     await loadCandles(undefined, action.timeframe);
                     break;
 
-                case "LOAD_CANDLES":
-                    await loadCandles(action.symbol, action.timeframe as Timeframe);
+                case "LOAD_CANDLES": {
+                    const timeframe = TimeframeSchema.safeParse(action.timeframe);
+                    const targetTimeframe = timeframe.success ? timeframe.data : undefined;
+                    dispatch({ type: "SET_SYMBOL", symbol: action.symbol });
+                    if (targetTimeframe) {
+                        dispatch({ type: "SET_TIMEFRAME", timeframe: targetTimeframe });
+                    }
+                    await loadCandles(action.symbol, targetTimeframe, {
+                        from: action.from,
+                        to: action.to,
+                    });
                     break;
+                }
 
-                case "ADD_INDICATOR":
-                    const defaultParams: Record<string, Record<string, number>> = {
-                        MACD: { fast: 12, slow: 26, signal: 9 },
-                        RSI: { period: 14 },
-                        EMA: { period: 20 },
-                    };
+                case "ADD_INDICATOR": {
+                    // Registry defaults fill in any params the action leaves out
+                    const params = resolveIndicatorParams(action.indicator, action.params);
+                    if (!params.success) {
+                        console.warn(`Invalid params for ${action.indicator}:`, action.params);
+                        break;
+                    }
                     dispatch({
                         type: "ADD_INDICATOR",
+                        id: action.id,
                         indicator: {
                             name: action.indicator,
-                            params: action.params || defaultParams[action.indicator] || {},
+                            params: params.data,
                             visible: true,
                         },
                     });
                     break;
+                }
 
                 case "UPDATE_INDICATOR_PARAMS":
                     dispatch({
                         type: "UPDATE_INDICATOR_PARAMS",
+                        id: action.id,
                         indicatorName: action.indicator,
                         params: action.params,
                     });
                     break;
 
+                case "REMOVE_INDICATOR":
+                    dispatch({
+                        type: "REMOVE_INDICATOR",
+                        id: action.id,
+                        indicatorName: action.indicator,
+                    });
+                    break;
+
                 case "HIGHLIGHT_POINTS":
                     dispatch({ type: "ADD_HIGHLIGHTS", points: action.points });
                     break;
 
                 case "HIGHLIGHT_REGION":
-                    // Convert region to highlight points for visualization
-                    dispatch({
-                        type: "ADD_HIGHLIGHTS",
-                        points: [
-                            {
-                                time: action.region.fromTime,
-                                pane: action.region.pane,
-                                label: action.region.label ? `Start: ${action.region.label}` : undefined,
-                            },
-                            {
-                                time: action.region.toTime,
-                                pane: action.region.pane,
-                                label: action.region.label ? `End: ${action.region.label}` : undefined,
-                            },
-                        ],
-                    });
+                    dispatch({ type: "ADD_REGION", region: action.region });
                     break;
 
                 case "ADD_ANNOTATION":
@@ -211,6 +532,39 @@ export function ChartProvider({ children }: { children: ReactNode }) {
                     });
                     break;
 
+                case "SHOW_MARKET_STRUCTURE": {
+                    const levels = action.levels ?? true;
+                    const swings = action.swings ?? true;
+                    dispatch({
+                        type: "SET_MARKET_STRUCTURE",
+                        config:
+                            levels || swings
+                                ? {
+                                      levels,
+                                      swings,
+                                      pivotLookback: action.pivotLookback ?? DEFAULT_PIVOT_LOOKBACK,
+                                      maxZones: action.maxZones ?? DEFAULT_MAX_ZONES,
+                                  }
+                                : null,
+                    });
+                    break;
+                }
+
+                case "DRAW_TRENDLINE":
+                case "DRAW_RAY":
+                case "DRAW_HORIZONTAL_LINE":
+                case "DRAW_RECTANGLE":
+                case "DRAW_FIBONACCI":
+                    dispatch({
+                        type: "ADD_DRAWING",
+                        drawing: drawingFromAction(action, Math.floor(Date.now() / 1000)),
+                    });
+                    break;
+
+                case "CLEAR_DRAWINGS":
+                    dispatch({ type: "CLEAR_DRAWINGS" });
+                    break;
+
                 case "CLEAR_HIGHLIGHTS":
                     dispatch({ type: "CLEAR_HIGHLIGHTS" });
                     break;
@@ -223,9 +577,10 @@ export function ChartProvider({ children }: { children: ReactNode }) {
         [loadCandles]
     );
 
-    // Execute multiple actions sequentially
+    // Execute multiple actions sequentially, as one undo step
     const executeActions = useCallback(
-        async (actions: ChartAction[]) => {
+        async (actions: ChartAction[], step: HistoryStepOptions = {}) => {
+            dispatch({ type: "CHECKPOINT", label: step.label ?? actionsLabel(actions), tag: step.tag });
             for (const action of actions) {
                 await executeAction(action);
             }
@@ -233,8 +588,69 @@ export function ChartProvider({ children }: { children: ReactNode }) {
         [executeAction]
     );
 
+    const checkpoint = useCallback((label: string, tag?: string) => {
+        dispatch({ type: "CHECKPOINT", label, tag });
+    }, []);
+    const undo = useCallback(() => dispatch({ type: "UNDO" }), []);
+    const redo = useCallback(() => dispatch({ type: "REDO" }), []);
+    const revertTo = useCallback((tag: string) => dispatch({ type: "REVERT", tag }), []);
+    // Only while the chart differs from how it was before that step
+    const canRevert = (tag: string) => {
+        const step = [...history.past].reverse().find((s) => s.tag === tag);
+        return !!step && !sameChart(step.snapshot, takeSnapshot(state));
+    };
+
+    const loadChart = useCallback(
+        async (actions?: ChartAction[]) => {
+            dispatch({ type: "RESET" });
+            if (!actions?.length) {
+                await loadCandles(initialState.symbol, initialState.timeframe);
+                return;
+            }
+            for (const action of actions) {
+                await executeAction(action);
+            }
+        },
+        [executeAction, loadCandles]
+    );
+
+    // First load
+    const initialLoadRef = useRef(false);
+    useEffect(() => {
+        if (initialLoadRef.current) return;
+        initialLoadRef.current = true;
+        loadChart(initialActions);
+    }, [initialActions, loadChart]);
+
+    // Undo/redo to the latest candles of another symbol or timeframe fetches current ones
+    const { refreshes } = history;
+    const handledRefreshesRef = useRef(0);
+    useEffect(() => {
+        if (refreshes === handledRefreshesRef.current) return;
+        handledRefreshesRef.current = refreshes;
+        loadCandles();
+    }, [refreshes, loadCandles]);
+
     return (
-        <ChartContext.Provider value={{ state, dispatch, executeAction, executeActions, loadCandles }}>
+        <ChartContext.Provider
+            value={{
+                state,
+                dispatch,
+                executeAction,
+                executeActions,
+                loadCandles,
+                loadOlderCandles,
+                checkpoint,
+                undo,
+                redo,
+                undoLabel: history.past[history.past.length - 1]?.label ?? null,
+                redoLabel: history.future[history.future.length - 1]?.label ?? null,
+                revertTo,
+                canRevert,
+                loadChart,
+                viewRangeRef,
+            }}
+        >
             {children}
         </ChartContext.Provider>
     );
@@ -0,0 +1,113 @@
+import type { ChartAction, ChartContextState } from "@/lib/schema/chartActions";
+
+/**
+ * Undo/redo history for the chart. Each step stores a snapshot of the chart
+ * as it was before the step, so undoing an assistant's batch of actions or a
+ * toolbar change puts the user's own setup back.
+ */
+
+// Undo steps kept; older ones are dropped
+export const MAX_HISTORY_STEPS = 50;
+
+// What a step restores. Loading and live flags and the armed drawing tool are not undone.
+export type ChartSnapshot = Pick<
+    ChartContextState,
+    | "symbol"
+    | "timeframe"
+    | "candles"
+    | "candleRange"
+    | "indicators"
+    | "visibleFrom"
+    | "visibleTo"
+    | "highlights"
+    | "regions"
+    | "annotations"
+    | "showPatterns"
+    | "marketStructure"
+    | "drawings"
+>;
+
+export interface HistoryStep {
+    // What the step did, e.g. "Add RSI"
+    label: string;
+    // Source of the step, e.g. the chat message whose actions it applied
+    tag?: string;
+    snapshot: ChartSnapshot;
+}
+
+export function takeSnapshot(state: ChartContextState): ChartSnapshot {
+    const {
+        symbol,
+        timeframe,
+        candles,
+        candleRange,
+        indicators,
+        visibleFrom,
+        visibleTo,
+        highlights,
+        regions,
+        annotations,
+        showPatterns,
+        marketStructure,
+        drawings,
+    } = state;
+    return {
+        symbol,
+        timeframe,
+        candles,
+        candleRange,
+        indicators,
+        visibleFrom,
+        visibleTo,
+        highlights,
+        regions,
+        annotations,
+        showPatterns,
+        marketStructure,
+        drawings,
+    };
+}
+
+// Same symbol, timeframe and loaded window
+function sameCandleSource(a: ChartSnapshot, b: ChartSnapshot): boolean {
+    return (
+        a.symbol === b.symbol &&
+        a.timeframe === b.timeframe &&
+        a.candleRange?.from === b.candleRange?.from &&
+        a.candleRange?.to === b.candleRange?.to
+    );
+}
+
+/**
+ * Put a snapshot back. When it shows the same candles as now, the current
+ * candles are kept so live updates and backfilled history are not lost.
+ */
+export function restoreSnapshot(state: ChartContextState, snapshot: ChartSnapshot): ChartContextState {
+    const current = takeSnapshot(state);
+    return {
+        ...state,
+        ...snapshot,
+        candles: sameCandleSource(current, snapshot) ? state.candles : snapshot.candles,
+    };
+}
+
+/**
+ * Whether two snapshots show the same chart; steps that changed nothing are
+ * skipped when undoing
+ */
+export function sameChart(a: ChartSnapshot, b: ChartSnapshot): boolean {
+    if (!sameCandleSource(a, b)) return false;
+    // Candles change with live updates, so only the setup around them is compared
+    return (Object.keys(a) as (keyof ChartSnapshot)[]).every(
+        (key) => key === "candles" || key === "candleRange" || a[key] === b[key]
+    );
+}
+
+/**
+ * Default step label for a batch of actions, e.g. "Add indicator" or "3 chart changes"
+ */
+export function actionsLabel(actions: ChartAction[]): string {
+    if (actions.length !== 1) return `${actions.length} chart changes`;
+    const words = actions[0].type.toLowerCase().replace(/_/g, " ");
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
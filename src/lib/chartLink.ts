@@ -0,0 +1,199 @@
+import { ChartAction, ChartActionSchema, ChartContextState } from "@/lib/schema/chartActions";
+import { isTimeframe } from "@/lib/timeframes";
+
+/**
+ * Shareable chart links. A link stores the chart's setup as a compact payload
+ * and is opened by replaying the equivalent chart actions, so it keeps working
+ * as the state shape changes: each payload version has its own decoder that
+ * maps it onto current actions, and anything the schema no longer accepts is
+ * dropped instead of breaking the link. Change the payload incompatibly by
+ * bumping LINK_VERSION and adding a decoder; never edit an old one.
+ */
+
+// Query parameter holding the link code, e.g. /?chart=1.eyJzIjoi...
+export const CHART_LINK_PARAM = "chart";
+
+const LINK_VERSION = 1;
+
+// Time range the chart shows, in unix seconds
+export interface ViewRange {
+    from: number;
+    to: number;
+}
+
+// Version 1 payload; keys are short to keep URLs compact
+interface ChartLinkV1 {
+    v: 1;
+    // Symbol and timeframe
+    s: string;
+    t: string;
+    // Loaded window
+    w?: [number | null, number | null];
+    // Visible time range
+    r?: [number, number];
+    // Indicators as [type, params, id]
+    i?: [string, Record<string, number>, string][];
+    // Highlight points, regions and annotations, as in their actions
+    h?: unknown[];
+    g?: unknown[];
+    a?: unknown[];
+    // Drawings as [type, points as [time, price], label, color]
+    d?: [string, [number, number][], string?, string?][];
+    // Market structure overlay config
+    m?: unknown;
+}
+
+// Drawn prices come from mouse positions; eight significant digits is plenty
+function compactPrice(price: number): number {
+    return Number(price.toPrecision(8));
+}
+
+function toBase64Url(text: string): string {
+    let binary = "";
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): string {
+    const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * Link code for the chart: symbol, timeframe, loaded window, visible range,
+ * indicators, highlights, regions, annotations, drawings and market structure.
+ * `view` is the range on screen; it defaults to the last focused range.
+ */
+export function encodeChartLink(state: ChartContextState, view?: ViewRange | null): string {
+    // A chart of the latest candles is pinned to the span it shows, so the marks on it
+    // are still in view when the link is opened later
+    const { candles, candleRange } = state;
+    const loaded: ChartLinkV1["w"] = candleRange
+        ? [candleRange.from ?? null, candleRange.to ?? null]
+        : candles.length > 0
+          ? [candles[0].time, candles[candles.length - 1].time]
+          : undefined;
+    const visible =
+        view ?? (state.visibleFrom && state.visibleTo ? { from: state.visibleFrom, to: state.visibleTo } : null);
+    const payload: ChartLinkV1 = {
+        v: LINK_VERSION,
+        s: state.symbol,
+        t: state.timeframe,
+        w: loaded,
+        r: visible ? [Math.round(visible.from), Math.round(visible.to)] : undefined,
+        i: state.indicators.length > 0 ? state.indicators.map((i) => [i.name, i.params, i.id]) : undefined,
+        h: state.highlights.length > 0 ? state.highlights : undefined,
+        g: state.regions.length > 0 ? state.regions : undefined,
+        a: state.annotations.length > 0 ? state.annotations : undefined,
+        d:
+            state.drawings.length > 0
+                ? state.drawings.map((d) => [
+                      d.type,
+                      d.points.map((p): [number, number] => [p.time, compactPrice(p.price)]),
+                      d.label,
+                      d.color,
+                  ])
+                : undefined,
+        m: state.marketStructure ?? undefined,
+    };
+    return `${LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const DRAW_ACTIONS: Record<string, string> = {
+    trendline: "DRAW_TRENDLINE",
+    ray: "DRAW_RAY",
+    horizontal_line: "DRAW_HORIZONTAL_LINE",
+    rectangle: "DRAW_RECTANGLE",
+    fibonacci: "DRAW_FIBONACCI",
+};
+
+// Version 1 payload to raw actions, in the order they rebuild the chart
+function decodeV1(payload: Partial<ChartLinkV1>): unknown[] {
+    if (typeof payload.s !== "string" || typeof payload.t !== "string" || !isTimeframe(payload.t)) return [];
+
+    const [from, to] = list(payload.w);
+    const actions: unknown[] = [
+        {
+            type: "LOAD_CANDLES",
+            symbol: payload.s,
+            timeframe: payload.t,
+            from: from ?? undefined,
+            to: to ?? undefined,
+        },
+    ];
+
+    for (const entry of list(payload.i)) {
+        const [indicator, params, id] = list(entry);
+        actions.push({ type: "ADD_INDICATOR", indicator, params, id });
+    }
+    if (payload.m && typeof payload.m === "object") {
+        actions.push({ ...payload.m, type: "SHOW_MARKET_STRUCTURE" });
+    }
+    const points = list(payload.h);
+    if (points.length > 0) actions.push({ type: "HIGHLIGHT_POINTS", points });
+    for (const region of list(payload.g)) actions.push({ type: "HIGHLIGHT_REGION", region });
+    for (const annotation of list(payload.a)) actions.push({ type: "ADD_ANNOTATION", annotation });
+
+    for (const entry of list(payload.d)) {
+        const [type, rawPoints, label, color] = list(entry);
+        const [start, end] = list(rawPoints).map((point) => {
+            const [time, price] = list(point);
+            return { time, price };
+        });
+        const style = { label: label ?? undefined, color: color ?? undefined };
+        actions.push(
+            type === "horizontal_line"
+                ? { type: DRAW_ACTIONS[type], price: start?.price, ...style }
+                : { type: DRAW_ACTIONS[String(type)], start, end, ...style }
+        );
+    }
+
+    // Last, so the range applies to the loaded candles
+    const [fromTime, toTime] = list(payload.r);
+    if (fromTime !== undefined) actions.push({ type: "FOCUS_RANGE", range: { fromTime, toTime } });
+    return actions;
+}
+
+const DECODERS: Record<number, (payload: Partial<ChartLinkV1>) => unknown[]> = {
+    1: decodeV1,
+};
+
+function parseAction(raw: unknown): ChartAction | null {
+    const parsed = ChartActionSchema.safeParse(raw);
+    if (parsed.success) return parsed.data;
+
+    // Params an indicator no longer accepts fall back to its defaults
+    const action = raw as { type?: unknown; params?: unknown };
+    if (action.type === "ADD_INDICATOR" && action.params !== undefined) {
+        return parseAction({ ...action, params: undefined });
+    }
+    console.warn("[Chart Link] Dropping action the chart no longer accepts:", raw);
+    return null;
+}
+
+/**
+ * Chart actions that rebuild a linked chart, starting with LOAD_CANDLES.
+ * Null when the code is not a readable link.
+ */
+export function decodeChartLink(code: string): ChartAction[] | null {
+    const dot = code.indexOf(".");
+    const decode = dot > 0 ? DECODERS[Number(code.slice(0, dot))] : undefined;
+    if (!decode) {
+        console.warn("[Chart Link] Unsupported link version:", code.slice(0, Math.max(dot, 0)));
+        return null;
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(fromBase64Url(code.slice(dot + 1)));
+    } catch (error) {
+        console.warn("[Chart Link] Unreadable link:", error);
+        return null;
+    }
+    if (!payload || typeof payload !== "object") return null;
+
+    const actions = decode(payload).flatMap((raw) => parseAction(raw) ?? []);
+    return actions[0]?.type === "LOAD_CANDLES" ? actions : null;
+}
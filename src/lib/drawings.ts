@@ -0,0 +1,72 @@
+import type { Candle, ChartAction, Drawing, DrawingPoint } from "@/lib/schema/chartActions";
+
+/**
+ * Chart drawings: trendlines, rays, horizontal lines, rectangles and
+ * Fibonacci retracements, placed by the user from the toolbar or by the
+ * assistant through DRAW_* actions.
+ */
+
+export const DRAWING_TYPES = ["trendline", "ray", "horizontal_line", "rectangle", "fibonacci"] as const;
+
+export type DrawingType = (typeof DRAWING_TYPES)[number];
+
+export const DRAWING_TOOLS: Record<DrawingType, { label: string; title: string; points: number }> = {
+    trendline: { label: "╱ Trend", title: "Trendline between two points", points: 2 },
+    ray: { label: "→ Ray", title: "Ray from a point through a second one", points: 2 },
+    horizontal_line: { label: "― H-Line", title: "Horizontal line at a price", points: 1 },
+    rectangle: { label: "▭ Rect", title: "Rectangle between two corners", points: 2 },
+    fibonacci: { label: "Fib", title: "Fibonacci retracement from swing start to swing end", points: 2 },
+};
+
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+/**
+ * Price of a retracement level for a move from `start` to `end`: level 0 is
+ * the end of the move, level 1 its start
+ */
+export function fibonacciPrice(start: DrawingPoint, end: DrawingPoint, level: number): number {
+    return end.price - (end.price - start.price) * level;
+}
+
+/**
+ * Snap a price to the nearest of the candle's open, high, low and close
+ */
+export function snapToCandle(candle: Candle, price: number): DrawingPoint {
+    const levels = [candle.open, candle.high, candle.low, candle.close];
+    const nearest = levels.reduce((best, level) => (Math.abs(level - price) < Math.abs(best - price) ? level : best));
+    return { time: candle.time, price: nearest };
+}
+
+/**
+ * Id for a new drawing, e.g. "trendline-3", unique among existing ids
+ */
+export function createDrawingId(type: DrawingType, existingIds: string[]): string {
+    let n = 1;
+    while (existingIds.includes(`${type}-${n}`)) n++;
+    return `${type}-${n}`;
+}
+
+type DrawAction = Extract<
+    ChartAction,
+    { type: "DRAW_TRENDLINE" | "DRAW_RAY" | "DRAW_HORIZONTAL_LINE" | "DRAW_RECTANGLE" | "DRAW_FIBONACCI" }
+>;
+
+/**
+ * Drawing described by a DRAW_* action, without an id. Only the price of a
+ * horizontal line matters; its point records `time` as where it was placed.
+ */
+export function drawingFromAction(action: DrawAction, time: number): Omit<Drawing, "id"> {
+    const style = { label: action.label, color: action.color };
+    switch (action.type) {
+        case "DRAW_TRENDLINE":
+            return { type: "trendline", points: [action.start, action.end], ...style };
+        case "DRAW_RAY":
+            return { type: "ray", points: [action.start, action.end], ...style };
+        case "DRAW_HORIZONTAL_LINE":
+            return { type: "horizontal_line", points: [{ time, price: action.price }], ...style };
+        case "DRAW_RECTANGLE":
+            return { type: "rectangle", points: [action.start, action.end], ...style };
+        case "DRAW_FIBONACCI":
+            return { type: "fibonacci", points: [action.start, action.end], ...style };
+    }
+}
@@ -0,0 +1,440 @@
+import { z } from "zod";
+import type { Candle } from "@/lib/schema/chartActions";
+import {
+    calculateEMA,
+    calculateMACD,
+    calculateRSI,
+    calculateOBV,
+    calculateVWAP,
+    calculateSMA,
+    calculateWMA,
+    calculateBollingerBands,
+    calculateKeltnerChannels,
+    calculateStochastic,
+    calculateStochasticRSI,
+    calculateATR,
+    calculateADX,
+    calculateParabolicSAR,
+    calculateIchimoku,
+} from "@/lib/indicators";
+
+/**
+ * Indicator registry. Each entry declares everything needed to offer and
+ * draw an indicator; the action schema, the LLM tool definition, the chart
+ * toolbar and ChartCanvas are all generated from it. Adding an indicator
+ * means adding one entry here.
+ */
+
+export type IndicatorValues = (number | null)[];
+
+// A band output is an upper and lower line drawn as a pair
+export interface BandValues {
+    upper: IndicatorValues;
+    lower: IndicatorValues;
+}
+
+export type IndicatorOutputValues = IndicatorValues | BandValues;
+
+// Output kinds:
+// - line / histogram: one value per candle
+// - band: an upper and lower line drawn as a pair
+// - points: a dot per candle with no connecting line (e.g. Parabolic SAR)
+// Values may run past the last candle (Ichimoku leading spans); those are
+// drawn at extrapolated future times.
+export interface IndicatorOutput {
+    key: string;
+    label: string;
+    kind: "line" | "histogram" | "band" | "points";
+    color: string;
+    // Histogram bars below zero use this colour instead
+    negativeColor?: string;
+    lineWidth?: 1 | 2 | 3 | 4;
+    // Format axis values as volume (1.2K, 3.4M)
+    volumeFormat?: boolean;
+}
+
+// Where an indicator is drawn:
+// - price: overlaid on the candles, sharing their scale
+// - volume: in the volume pane
+// - oscillator: in a pane of its own below the chart, one per instance
+export type IndicatorPane = "price" | "volume" | "oscillator";
+
+// Horizontal reference line in an indicator's pane, e.g. RSI 30/70 or MACD 0
+export interface IndicatorGuide {
+    value: number;
+    label?: string;
+    color?: string;
+}
+
+export interface IndicatorPriceScale {
+    id: string;
+    visible?: boolean;
+    scaleMargins?: { top: number; bottom: number };
+}
+
+export interface IndicatorDefinition {
+    label: string;
+    // Short explanation, also shown to the LLM
+    description: string;
+    // Numeric params, each with a default so `params.parse({})` gives the defaults
+    params: z.ZodObject<Record<string, z.ZodDefault<z.ZodNumber>>>;
+    pane: IndicatorPane;
+    priceScale?: IndicatorPriceScale;
+    guides?: IndicatorGuide[];
+    // Fixed scale for bounded oscillators, so the guides stay in view
+    range?: { min: number; max: number };
+    // Output pair whose crossovers are the indicator's signal, e.g. MACD over signal
+    signalLines?: [string, string];
+    outputs: IndicatorOutput[];
+    compute: (candles: Candle[], params: Record<string, number>) => Record<string, IndicatorOutputValues>;
+}
+
+const period = (defaultValue: number) => z.number().int().positive().default(defaultValue);
+// Non-integer params such as band widths and SAR acceleration
+const factor = (defaultValue: number) => z.number().positive().default(defaultValue);
+
+const highs = (candles: Candle[]) => candles.map((c) => c.high);
+const lows = (candles: Candle[]) => candles.map((c) => c.low);
+const closes = (candles: Candle[]) => candles.map((c) => c.close);
+
+export const INDICATORS = {
+    EMA: {
+        label: "EMA",
+        description: "Exponential moving average of the close",
+        params: z.object({ period: period(20) }),
+        pane: "price",
+        outputs: [{ key: "ema", label: "EMA", kind: "line", color: "#f59e0b", lineWidth: 2 }],
+        compute: (candles, params) => ({
+            ema: calculateEMA(
+                candles.map((c) => c.close),
+                params.period
+            ),
+        }),
+    },
+    SMA: {
+        label: "SMA",
+        description: "Simple moving average of the close",
+        params: z.object({ period: period(20) }),
+        pane: "price",
+        outputs: [{ key: "sma", label: "SMA", kind: "line", color: "#38bdf8", lineWidth: 2 }],
+        compute: (candles, params) => ({ sma: calculateSMA(closes(candles), params.period) }),
+    },
+    WMA: {
+        label: "WMA",
+        description: "Linearly weighted moving average of the close",
+        params: z.object({ period: period(20) }),
+        pane: "price",
+        outputs: [{ key: "wma", label: "WMA", kind: "line", color: "#84cc16", lineWidth: 2 }],
+        compute: (candles, params) => ({ wma: calculateWMA(closes(candles), params.period) }),
+    },
+    BB: {
+        label: "BB",
+        description: "Bollinger Bands: SMA of the close with bands stdDev standard deviations away",
+        params: z.object({ period: period(20), stdDev: factor(2) }),
+        pane: "price",
+        outputs: [
+            { key: "middle", label: "Basis", kind: "line", color: "#94a3b8", lineWidth: 1 },
+            { key: "bands", label: "Bands", kind: "band", color: "#60a5fa", lineWidth: 1 },
+        ],
+        compute: (candles, params) => {
+            const { upper, middle, lower } = calculateBollingerBands(closes(candles), params.period, params.stdDev);
+            return { middle, bands: { upper, lower } };
+        },
+    },
+    KC: {
+        label: "KC",
+        description: "Keltner Channels: EMA of the close with channels multiplier x ATR away",
+        params: z.object({ period: period(20), multiplier: factor(2), atrPeriod: period(10) }),
+        pane: "price",
+        outputs: [
+            { key: "middle", label: "Basis", kind: "line", color: "#94a3b8", lineWidth: 1 },
+            { key: "channels", label: "Channels", kind: "band", color: "#f472b6", lineWidth: 1 },
+        ],
+        compute: (candles, params) => {
+            const { upper, middle, lower } = calculateKeltnerChannels(
+                highs(candles),
+                lows(candles),
+                closes(candles),
+                params.period,
+                params.multiplier,
+                params.atrPeriod
+            );
+            return { middle, channels: { upper, lower } };
+        },
+    },
+    PSAR: {
+        label: "PSAR",
+        description: "Parabolic SAR trailing stop dots; below price in uptrends, above in downtrends",
+        params: z.object({ step: factor(0.02), maxStep: factor(0.2) }),
+        pane: "price",
+        outputs: [{ key: "sar", label: "SAR", kind: "points", color: "#facc15" }],
+        compute: (candles, params) => ({
+            sar: calculateParabolicSAR(highs(candles), lows(candles), params.step, params.maxStep),
+        }),
+    },
+    ICHIMOKU: {
+        label: "Ichimoku",
+        description:
+            "Ichimoku Cloud: Tenkan, Kijun, leading spans A/B (the cloud, projected forward) and lagging span",
+        params: z.object({ tenkan: period(9), kijun: period(26), senkou: period(52), displacement: period(26) }),
+        pane: "price",
+        signalLines: ["tenkan", "kijun"],
+        outputs: [
+            { key: "tenkan", label: "Tenkan", kind: "line", color: "#3b82f6", lineWidth: 1 },
+            { key: "kijun", label: "Kijun", kind: "line", color: "#ef4444", lineWidth: 1 },
+            { key: "senkouA", label: "Span A", kind: "line", color: "#22c55e", lineWidth: 1 },
+            { key: "senkouB", label: "Span B", kind: "line", color: "#f97316", lineWidth: 1 },
+            { key: "chikou", label: "Lagging", kind: "line", color: "#a3a3a3", lineWidth: 1 },
+        ],
+        compute: (candles, params) =>
+            calculateIchimoku(
+                highs(candles),
+                lows(candles),
+                closes(candles),
+                params.tenkan,
+                params.kijun,
+                params.senkou,
+                params.displacement
+            ),
+    },
+    MACD: {
+        label: "MACD",
+        description: "Moving Average Convergence Divergence: MACD line, signal line and histogram",
+        params: z.object({ fast: period(12), slow: period(26), signal: period(9) }),
+        pane: "oscillator",
+        guides: [{ value: 0 }],
+        signalLines: ["macd", "signal"],
+        outputs: [
+            { key: "histogram", label: "Histogram", kind: "histogram", color: "#10b981", negativeColor: "#ef4444" },
+            { key: "macd", label: "MACD", kind: "line", color: "#3b82f6", lineWidth: 2 },
+            { key: "signal", label: "Signal", kind: "line", color: "#f59e0b", lineWidth: 2 },
+        ],
+        compute: (candles, params) => {
+            const { macdLine, signalLine, histogram } = calculateMACD(
+                candles.map((c) => c.close),
+                params.fast,
+                params.slow,
+                params.signal
+            );
+            return { macd: macdLine, signal: signalLine, histogram };
+        },
+    },
+    RSI: {
+        label: "RSI",
+        description: "Relative Strength Index, 0-100 momentum oscillator",
+        params: z.object({ period: period(14) }),
+        pane: "oscillator",
+        guides: [
+            { value: 70, label: "Overbought", color: "#ef4444" },
+            { value: 30, label: "Oversold", color: "#10b981" },
+        ],
+        range: { min: 0, max: 100 },
+        outputs: [{ key: "rsi", label: "RSI", kind: "line", color: "#a855f7", lineWidth: 2 }],
+        compute: (candles, params) => ({
+            rsi: calculateRSI(
+                candles.map((c) => c.close),
+                params.period
+            ),
+        }),
+    },
+    STOCH: {
+        label: "Stoch",
+        description: "Stochastic oscillator, 0-100: %K (close within the k-bar range, smoothed) and %D",
+        params: z.object({ k: period(14), d: period(3), smooth: period(3) }),
+        pane: "oscillator",
+        guides: [
+            { value: 80, label: "Overbought", color: "#ef4444" },
+            { value: 20, label: "Oversold", color: "#10b981" },
+        ],
+        range: { min: 0, max: 100 },
+        signalLines: ["k", "d"],
+        outputs: [
+            { key: "k", label: "%K", kind: "line", color: "#3b82f6", lineWidth: 2 },
+            { key: "d", label: "%D", kind: "line", color: "#f59e0b", lineWidth: 1 },
+        ],
+        compute: (candles, params) =>
+            calculateStochastic(highs(candles), lows(candles), closes(candles), params.k, params.d, params.smooth),
+    },
+    STOCH_RSI: {
+        label: "StochRSI",
+        description: "Stochastic RSI, 0-100: the stochastic oscillator applied to RSI",
+        params: z.object({ rsiPeriod: period(14), stochPeriod: period(14), k: period(3), d: period(3) }),
+        pane: "oscillator",
+        guides: [
+            { value: 80, label: "Overbought", color: "#ef4444" },
+            { value: 20, label: "Oversold", color: "#10b981" },
+        ],
+        range: { min: 0, max: 100 },
+        signalLines: ["k", "d"],
+        outputs: [
+            { key: "k", label: "%K", kind: "line", color: "#06b6d4", lineWidth: 2 },
+            { key: "d", label: "%D", kind: "line", color: "#f97316", lineWidth: 1 },
+        ],
+        compute: (candles, params) =>
+            calculateStochasticRSI(closes(candles), params.rsiPeriod, params.stochPeriod, params.k, params.d),
+    },
+    ATR: {
+        label: "ATR",
+        description: "Average True Range, a volatility measure in price units",
+        params: z.object({ period: period(14) }),
+        pane: "oscillator",
+        outputs: [{ key: "atr", label: "ATR", kind: "line", color: "#f43f5e", lineWidth: 2 }],
+        compute: (candles, params) => ({
+            atr: calculateATR(highs(candles), lows(candles), closes(candles), params.period),
+        }),
+    },
+    ADX: {
+        label: "ADX",
+        description: "Average Directional Index (trend strength, >25 trending) with +DI and -DI",
+        params: z.object({ period: period(14) }),
+        pane: "oscillator",
+        guides: [{ value: 25, label: "Trend" }],
+        signalLines: ["plusDI", "minusDI"],
+        outputs: [
+            { key: "adx", label: "ADX", kind: "line", color: "#e5e7eb", lineWidth: 2 },
+            { key: "plusDI", label: "+DI", kind: "line", color: "#22c55e", lineWidth: 1 },
+            { key: "minusDI", label: "-DI", kind: "line", color: "#ef4444", lineWidth: 1 },
+        ],
+        compute: (candles, params) => calculateADX(highs(candles), lows(candles), closes(candles), params.period),
+    },
+    VWAP: {
+        label: "VWAP",
+        description:
+            "Volume weighted average price; resets each session unless anchorTime (unix seconds) is set",
+        params: z.object({ anchorTime: z.number().int().nonnegative().default(0) }),
+        pane: "price",
+        outputs: [{ key: "vwap", label: "VWAP", kind: "line", color: "#06b6d4", lineWidth: 2 }],
+        compute: (candles, params) => ({
+            vwap: calculateVWAP(
+                candles.map((c) => c.high),
+                candles.map((c) => c.low),
+                candles.map((c) => c.close),
+                candles.map((c) => c.volume ?? 0),
+                candles.map((c) => c.time),
+                params.anchorTime || undefined
+            ),
+        }),
+    },
+    VOLUME_MA: {
+        label: "Vol MA",
+        description: "Simple moving average of volume, drawn over the volume histogram",
+        params: z.object({ period: period(20) }),
+        pane: "volume",
+        outputs: [
+            { key: "volumeMa", label: "Volume MA", kind: "line", color: "#f59e0b", lineWidth: 1, volumeFormat: true },
+        ],
+        compute: (candles, params) => ({
+            volumeMa: calculateSMA(
+                candles.map((c) => c.volume ?? 0),
+                params.period
+            ),
+        }),
+    },
+    OBV: {
+        label: "OBV",
+        description: "On-balance volume: cumulative volume signed by close direction",
+        params: z.object({}),
+        pane: "volume",
+        priceScale: { id: "left", visible: true },
+        outputs: [{ key: "obv", label: "OBV", kind: "line", color: "#ec4899", lineWidth: 2, volumeFormat: true }],
+        compute: (candles) => ({
+            obv: calculateOBV(
+                candles.map((c) => c.close),
+                candles.map((c) => c.volume ?? 0)
+            ),
+        }),
+    },
+} satisfies Record<string, IndicatorDefinition>;
+
+export type IndicatorType = keyof typeof INDICATORS;
+
+export const INDICATOR_TYPES = Object.keys(INDICATORS) as [IndicatorType, ...IndicatorType[]];
+
+export function getIndicatorDefinition(type: IndicatorType): IndicatorDefinition {
+    return INDICATORS[type];
+}
+
+/**
+ * Compute an indicator and flatten its outputs into named lines with one value
+ * per candle; band outputs become "<key>Upper" and "<key>Lower". Values past
+ * the last candle (Ichimoku leading spans) are dropped.
+ */
+export function computeIndicatorLines(
+    type: IndicatorType,
+    candles: Candle[],
+    params: Record<string, number>
+): Record<string, IndicatorValues> {
+    const definition = getIndicatorDefinition(type);
+    const values = definition.compute(candles, params);
+    const lines: Record<string, IndicatorValues> = {};
+    for (const output of definition.outputs) {
+        const value = values[output.key];
+        if (!value) continue;
+        if (Array.isArray(value)) {
+            lines[output.key] = value.slice(0, candles.length);
+        } else {
+            lines[`${output.key}Upper`] = value.upper.slice(0, candles.length);
+            lines[`${output.key}Lower`] = value.lower.slice(0, candles.length);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Key of an indicator's main line: the first plain line output, so MACD means
+ * the MACD line rather than the histogram
+ */
+export function mainIndicatorLine(type: IndicatorType): string {
+    const outputs = getIndicatorDefinition(type).outputs;
+    return (outputs.find((o) => o.kind === "line") ?? outputs[0]).key;
+}
+
+/**
+ * Validate params for an indicator, filling in defaults for missing ones
+ */
+export function resolveIndicatorParams(
+    type: IndicatorType,
+    params: Record<string, number> = {}
+): z.ZodSafeParseResult<Record<string, number>> {
+    return getIndicatorDefinition(type).params.safeParse(params);
+}
+
+/**
+ * Display label for an indicator instance, e.g. "EMA(50)" or "MACD(12,26,9)"
+ */
+export function indicatorLabel(type: IndicatorType, params: Record<string, number>): string {
+    const values = Object.values(params);
+    const label = INDICATORS[type].label;
+    return values.length > 0 ? `${label}(${values.join(",")})` : label;
+}
+
+/**
+ * Default instance id derived from type and params, e.g. "ema-50",
+ * suffixed when an instance with that id already exists
+ */
+export function createIndicatorId(
+    type: IndicatorType,
+    params: Record<string, number>,
+    existingIds: string[]
+): string {
+    const base = [type.toLowerCase(), ...Object.values(params)].join("-");
+    let id = base;
+    for (let n = 2; existingIds.includes(id); n++) {
+        id = `${base}-${n}`;
+    }
+    return id;
+}
+
+/**
+ * One line per indicator listing its params and defaults, for the LLM tool description
+ */
+export function describeIndicators(): string {
+    return INDICATOR_TYPES.map((type) => {
+        const definition = INDICATORS[type] as IndicatorDefinition;
+        const defaults = definition.params.parse({});
+        const params = Object.entries(defaults)
+            .map(([name, value]) => `${name}=${value}`)
+            .join(", ");
+        return `${type}: ${definition.description}${params ? ` (params: ${params})` : ""}`;
+    }).join("\n");
+}
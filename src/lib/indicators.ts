@@ -1,3 +1,5 @@
+import type { HighlightPoint } from "@/lib/schema/chartActions";
+
 /**
  * Calculate Exponential Moving Average (EMA)
  */
@@ -203,3 +205,876 @@ export function findZeroLineCrossovers(
 
     return crossovers;
 }
+
+/**
+ * Calculate Simple Moving Average (SMA)
+ */
+export function calculateSMA(data: number[], period: number): (number | null)[] {
+    const result: (number | null)[] = [];
+    let sum = 0;
+
+    for (let i = 0; i < data.length; i++) {
+        sum += data[i];
+        if (i >= period) {
+            sum -= data[i - period];
+        }
+        result.push(i >= period - 1 ? sum / period : null);
+    }
+
+    return result;
+}
+
+/**
+ * Calculate On-Balance Volume (OBV)
+ */
+export function calculateOBV(closes: number[], volumes: number[]): number[] {
+    const result: number[] = [];
+    let obv = 0;
+
+    for (let i = 0; i < closes.length; i++) {
+        if (i > 0) {
+            // Volume counts as buying on up closes and selling on down closes
+            if (closes[i] > closes[i - 1]) {
+                obv += volumes[i];
+            } else if (closes[i] < closes[i - 1]) {
+                obv -= volumes[i];
+            }
+        }
+        result.push(obv);
+    }
+
+    return result;
+}
+
+/**
+ * Calculate Volume Weighted Average Price (VWAP) from typical price.
+ * With an anchor time the VWAP accumulates from that candle onwards (anchored
+ * VWAP); without one it resets at the start of every UTC day (session VWAP).
+ */
+export function calculateVWAP(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    times: number[],
+    anchorTime?: number
+): (number | null)[] {
+    const result: (number | null)[] = [];
+    let cumulativePV = 0;
+    let cumulativeVolume = 0;
+    let session: number | null = null;
+
+    for (let i = 0; i < closes.length; i++) {
+        if (anchorTime !== undefined) {
+            if (times[i] < anchorTime) {
+                result.push(null);
+                continue;
+            }
+        } else {
+            const day = Math.floor(times[i] / 86400);
+            if (day !== session) {
+                session = day;
+                cumulativePV = 0;
+                cumulativeVolume = 0;
+            }
+        }
+
+        const typicalPrice = (highs[i] + lows[i] + closes[i]) / 3;
+        cumulativePV += typicalPrice * volumes[i];
+        cumulativeVolume += volumes[i];
+        result.push(cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : null);
+    }
+
+    return result;
+}
+
+/**
+ * Apply a calculation to the non-null tail of a series and map the result
+ * back onto the full length (same approach as the MACD signal line)
+ */
+function applyToValid(
+    values: (number | null)[],
+    calculate: (data: number[]) => (number | null)[]
+): (number | null)[] {
+    const firstValid = values.findIndex((v) => v !== null);
+    if (firstValid === -1) return values.map(() => null);
+
+    const calculated = calculate(values.slice(firstValid).map((v) => v ?? 0));
+    return [...values.slice(0, firstValid).map(() => null), ...calculated];
+}
+
+/**
+ * Highest high and lowest low over a trailing window
+ */
+function rollingExtremes(
+    highs: number[],
+    lows: number[],
+    period: number
+): { highest: (number | null)[]; lowest: (number | null)[] } {
+    const highest: (number | null)[] = [];
+    const lowest: (number | null)[] = [];
+
+    for (let i = 0; i < highs.length; i++) {
+        if (i < period - 1) {
+            highest.push(null);
+            lowest.push(null);
+            continue;
+        }
+        highest.push(Math.max(...highs.slice(i - period + 1, i + 1)));
+        lowest.push(Math.min(...lows.slice(i - period + 1, i + 1)));
+    }
+
+    return { highest, lowest };
+}
+
+/**
+ * Wilder's smoothing (RMA): first value is the SMA, then a running average
+ */
+function wilderSmooth(data: number[], period: number): (number | null)[] {
+    const result: (number | null)[] = [];
+    let avg: number | null = null;
+
+    for (let i = 0; i < data.length; i++) {
+        if (i < period - 1) {
+            result.push(null);
+        } else if (i === period - 1) {
+            avg = data.slice(0, period).reduce((a, b) => a + b, 0) / period;
+            result.push(avg);
+        } else {
+            avg = (avg! * (period - 1) + data[i]) / period;
+            result.push(avg);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Calculate Weighted Moving Average (WMA), weights 1..period
+ */
+export function calculateWMA(data: number[], period: number): (number | null)[] {
+    const result: (number | null)[] = [];
+    const weightSum = (period * (period + 1)) / 2;
+
+    for (let i = 0; i < data.length; i++) {
+        if (i < period - 1) {
+            result.push(null);
+            continue;
+        }
+        let sum = 0;
+        for (let j = 0; j < period; j++) {
+            sum += data[i - period + 1 + j] * (j + 1);
+        }
+        result.push(sum / weightSum);
+    }
+
+    return result;
+}
+
+/**
+ * Calculate Bollinger Bands: SMA middle band +/- stdDev standard deviations
+ */
+export function calculateBollingerBands(
+    data: number[],
+    period: number = 20,
+    stdDev: number = 2
+): {
+    upper: (number | null)[];
+    middle: (number | null)[];
+    lower: (number | null)[];
+} {
+    const middle = calculateSMA(data, period);
+    const upper: (number | null)[] = [];
+    const lower: (number | null)[] = [];
+
+    for (let i = 0; i < data.length; i++) {
+        const mean = middle[i];
+        if (mean === null) {
+            upper.push(null);
+            lower.push(null);
+            continue;
+        }
+        const window = data.slice(i - period + 1, i + 1);
+        const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+        const deviation = Math.sqrt(variance) * stdDev;
+        upper.push(mean + deviation);
+        lower.push(mean - deviation);
+    }
+
+    return { upper, middle, lower };
+}
+
+/**
+ * Calculate Average True Range (ATR) with Wilder's smoothing
+ */
+export function calculateATR(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14
+): (number | null)[] {
+    const trueRanges = highs.map((high, i) => {
+        if (i === 0) return high - lows[i];
+        return Math.max(high - lows[i], Math.abs(high - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]));
+    });
+
+    return wilderSmooth(trueRanges, period);
+}
+
+/**
+ * Calculate Keltner Channels: EMA middle line +/- multiplier x ATR
+ */
+export function calculateKeltnerChannels(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 20,
+    multiplier: number = 2,
+    atrPeriod: number = 10
+): {
+    upper: (number | null)[];
+    middle: (number | null)[];
+    lower: (number | null)[];
+} {
+    const middle = calculateEMA(closes, period);
+    const atr = calculateATR(highs, lows, closes, atrPeriod);
+
+    const upper = middle.map((m, i) => (m === null || atr[i] === null ? null : m + multiplier * atr[i]!));
+    const lower = middle.map((m, i) => (m === null || atr[i] === null ? null : m - multiplier * atr[i]!));
+
+    return { upper, middle, lower };
+}
+
+/**
+ * Calculate the Stochastic Oscillator (%K smoothed by `smooth`, %D = SMA of %K)
+ */
+export function calculateStochastic(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    kPeriod: number = 14,
+    dPeriod: number = 3,
+    smooth: number = 3
+): { k: (number | null)[]; d: (number | null)[] } {
+    const { highest, lowest } = rollingExtremes(highs, lows, kPeriod);
+
+    const rawK = closes.map((close, i) => {
+        const hh = highest[i];
+        const ll = lowest[i];
+        if (hh === null || ll === null) return null;
+        return hh === ll ? 50 : ((close - ll) / (hh - ll)) * 100;
+    });
+
+    const k = applyToValid(rawK, (data) => calculateSMA(data, smooth));
+    const d = applyToValid(k, (data) => calculateSMA(data, dPeriod));
+
+    return { k, d };
+}
+
+/**
+ * Calculate Stochastic RSI: the stochastic oscillator applied to RSI values
+ */
+export function calculateStochasticRSI(
+    closes: number[],
+    rsiPeriod: number = 14,
+    stochPeriod: number = 14,
+    kSmooth: number = 3,
+    dPeriod: number = 3
+): { k: (number | null)[]; d: (number | null)[] } {
+    const rsi = calculateRSI(closes, rsiPeriod);
+
+    // RSI is used as high, low and close, so the raw %K is its position in its own range
+    return applyStochasticTo(rsi, stochPeriod, kSmooth, dPeriod);
+}
+
+function applyStochasticTo(
+    values: (number | null)[],
+    period: number,
+    kSmooth: number,
+    dPeriod: number
+): { k: (number | null)[]; d: (number | null)[] } {
+    const firstValid = values.findIndex((v) => v !== null);
+    if (firstValid === -1) {
+        return { k: values.map(() => null), d: values.map(() => null) };
+    }
+
+    const padding = values.slice(0, firstValid).map(() => null);
+    const data = values.slice(firstValid).map((v) => v ?? 0);
+    const { k, d } = calculateStochastic(data, data, data, period, dPeriod, kSmooth);
+
+    return { k: [...padding, ...k], d: [...padding, ...d] };
+}
+
+/**
+ * Calculate ADX with the Directional Movement Index (+DI / -DI)
+ */
+export function calculateADX(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14
+): {
+    adx: (number | null)[];
+    plusDI: (number | null)[];
+    minusDI: (number | null)[];
+} {
+    const plusDM: number[] = [0];
+    const minusDM: number[] = [0];
+    const trueRanges: number[] = [highs[0] - lows[0]];
+
+    for (let i = 1; i < highs.length; i++) {
+        const up = highs[i] - highs[i - 1];
+        const down = lows[i - 1] - lows[i];
+        plusDM.push(up > down && up > 0 ? up : 0);
+        minusDM.push(down > up && down > 0 ? down : 0);
+        trueRanges.push(
+            Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]))
+        );
+    }
+
+    const smoothedTR = wilderSmooth(trueRanges, period);
+    const smoothedPlus = wilderSmooth(plusDM, period);
+    const smoothedMinus = wilderSmooth(minusDM, period);
+
+    const plusDI = smoothedTR.map((tr, i) => (tr ? (smoothedPlus[i]! / tr) * 100 : null));
+    const minusDI = smoothedTR.map((tr, i) => (tr ? (smoothedMinus[i]! / tr) * 100 : null));
+
+    const dx = plusDI.map((plus, i) => {
+        const minus = minusDI[i];
+        if (plus === null || minus === null) return null;
+        return plus + minus === 0 ? 0 : (Math.abs(plus - minus) / (plus + minus)) * 100;
+    });
+
+    const adx = applyToValid(dx, (data) => wilderSmooth(data, period));
+
+    return { adx, plusDI, minusDI };
+}
+
+/**
+ * Calculate Parabolic SAR
+ */
+export function calculateParabolicSAR(
+    highs: number[],
+    lows: number[],
+    step: number = 0.02,
+    maxStep: number = 0.2
+): (number | null)[] {
+    if (highs.length < 2) return highs.map(() => null);
+
+    const result: (number | null)[] = [null];
+    let rising = highs[1] >= highs[0];
+    let sar = rising ? lows[0] : highs[0];
+    let extreme = rising ? highs[0] : lows[0];
+    let acceleration = step;
+
+    for (let i = 1; i < highs.length; i++) {
+        sar = sar + acceleration * (extreme - sar);
+
+        if (rising) {
+            // SAR may not move above the prior two lows
+            sar = Math.min(sar, lows[i - 1], lows[Math.max(0, i - 2)]);
+            if (lows[i] < sar) {
+                rising = false;
+                sar = extreme;
+                extreme = lows[i];
+                acceleration = step;
+            } else if (highs[i] > extreme) {
+                extreme = highs[i];
+                acceleration = Math.min(acceleration + step, maxStep);
+            }
+        } else {
+            // SAR may not move below the prior two highs
+            sar = Math.max(sar, highs[i - 1], highs[Math.max(0, i - 2)]);
+            if (highs[i] > sar) {
+                rising = true;
+                sar = extreme;
+                extreme = highs[i];
+                acceleration = step;
+            } else if (lows[i] < extreme) {
+                extreme = lows[i];
+                acceleration = Math.min(acceleration + step, maxStep);
+            }
+        }
+
+        result.push(sar);
+    }
+
+    return result;
+}
+
+/**
+ * Calculate Ichimoku Cloud. The leading spans are shifted forward and the
+ * lagging span backward by `displacement`, so the returned arrays are
+ * `displacement` entries longer than the input; the extra entries lie past
+ * the last candle.
+ */
+export function calculateIchimoku(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    tenkanPeriod: number = 9,
+    kijunPeriod: number = 26,
+    senkouPeriod: number = 52,
+    displacement: number = 26
+): {
+    tenkan: (number | null)[];
+    kijun: (number | null)[];
+    senkouA: (number | null)[];
+    senkouB: (number | null)[];
+    chikou: (number | null)[];
+} {
+    const midpoint = (period: number) => {
+        const { highest, lowest } = rollingExtremes(highs, lows, period);
+        return highest.map((hh, i) => (hh === null || lowest[i] === null ? null : (hh + lowest[i]!) / 2));
+    };
+
+    const tenkan = midpoint(tenkanPeriod);
+    const kijun = midpoint(kijunPeriod);
+    const senkouBase = midpoint(senkouPeriod);
+    const padding: null[] = Array(displacement).fill(null);
+
+    const senkouA = [
+        ...padding,
+        ...tenkan.map((t, i) => (t === null || kijun[i] === null ? null : (t + kijun[i]!) / 2)),
+    ];
+    const senkouB = [...padding, ...senkouBase];
+    const chikou = [...closes.slice(displacement), ...padding, ...padding].slice(
+        0,
+        closes.length + displacement
+    );
+
+    return {
+        tenkan: [...tenkan, ...padding],
+        kijun: [...kijun, ...padding],
+        senkouA,
+        senkouB,
+        chikou,
+    };
+}
+
+/**
+ * Find crossovers of line `a` over/under line `b`
+ */
+export function findCrossovers(
+    a: (number | null)[],
+    b: (number | null)[],
+    times: number[]
+): { time: number; type: "bullish" | "bearish" }[] {
+    const crossovers: { time: number; type: "bullish" | "bearish" }[] = [];
+
+    for (let i = 1; i < Math.min(a.length, b.length, times.length); i++) {
+        const prevA = a[i - 1];
+        const currA = a[i];
+        const prevB = b[i - 1];
+        const currB = b[i];
+
+        if (prevA === null || currA === null || prevB === null || currB === null) {
+            continue;
+        }
+
+        if (prevA <= prevB && currA > currB) {
+            crossovers.push({ time: times[i], type: "bullish" });
+        } else if (prevA >= prevB && currA < currB) {
+            crossovers.push({ time: times[i], type: "bearish" });
+        }
+    }
+
+    return crossovers;
+}
+
+/**
+ * Find %K/%D crosses for Stochastic or Stochastic RSI. Crosses that happen
+ * inside the oversold/overbought zones are flagged, as those are the
+ * textbook signals.
+ */
+export function findStochasticCrossovers(
+    k: (number | null)[],
+    d: (number | null)[],
+    times: number[],
+    oversold: number = 20,
+    overbought: number = 80
+): { time: number; type: "bullish" | "bearish"; zone: "oversold" | "overbought" | null }[] {
+    return findCrossovers(k, d, times).map((cross) => {
+        const value = k[times.indexOf(cross.time)] ?? 50;
+        const zone = value <= oversold ? "oversold" : value >= overbought ? "overbought" : null;
+        return { ...cross, zone };
+    });
+}
+
+/**
+ * Find where an oscillator enters overbought or oversold territory
+ */
+export function findThresholdCrosses(
+    values: (number | null)[],
+    times: number[],
+    oversold: number,
+    overbought: number
+): { time: number; type: "overbought" | "oversold" }[] {
+    const crosses: { time: number; type: "overbought" | "oversold" }[] = [];
+
+    for (let i = 1; i < values.length; i++) {
+        const prev = values[i - 1];
+        const curr = values[i];
+        if (prev === null || curr === null) continue;
+
+        if (prev < overbought && curr >= overbought) {
+            crosses.push({ time: times[i], type: "overbought" });
+        } else if (prev > oversold && curr <= oversold) {
+            crosses.push({ time: times[i], type: "oversold" });
+        }
+    }
+
+    return crosses;
+}
+
+/**
+ * Find closes outside a band (Bollinger or Keltner)
+ */
+export function findBandBreaks(
+    closes: number[],
+    upper: (number | null)[],
+    lower: (number | null)[],
+    times: number[]
+): { time: number; type: "upper" | "lower" }[] {
+    const breaks: { time: number; type: "upper" | "lower" }[] = [];
+
+    for (let i = 0; i < closes.length; i++) {
+        if (upper[i] !== null && closes[i] > upper[i]!) {
+            breaks.push({ time: times[i], type: "upper" });
+        } else if (lower[i] !== null && closes[i] < lower[i]!) {
+            breaks.push({ time: times[i], type: "lower" });
+        }
+    }
+
+    return breaks;
+}
+
+/**
+ * Find squeezes: stretches where the Bollinger Bands sit inside the Keltner
+ * Channels. Each squeeze is returned as a time range; `toTime` is the bar
+ * where the squeeze released (or the last bar if it is still on).
+ */
+export function findBandSqueezes(
+    bbUpper: (number | null)[],
+    bbLower: (number | null)[],
+    kcUpper: (number | null)[],
+    kcLower: (number | null)[],
+    times: number[]
+): { fromTime: number; toTime: number }[] {
+    const squeezes: { fromTime: number; toTime: number }[] = [];
+    let start: number | null = null;
+
+    for (let i = 0; i < times.length; i++) {
+        const inside =
+            bbUpper[i] !== null &&
+            bbLower[i] !== null &&
+            kcUpper[i] !== null &&
+            kcLower[i] !== null &&
+            bbUpper[i]! < kcUpper[i]! &&
+            bbLower[i]! > kcLower[i]!;
+
+        if (inside && start === null) {
+            start = times[i];
+        } else if (!inside && start !== null) {
+            squeezes.push({ fromTime: start, toTime: times[i] });
+            start = null;
+        }
+    }
+
+    if (start !== null) {
+        squeezes.push({ fromTime: start, toTime: times[times.length - 1] });
+    }
+
+    return squeezes;
+}
+
+/**
+ * Find Parabolic SAR flips: bullish when SAR moves below price, bearish when above
+ */
+export function findSARFlips(
+    sar: (number | null)[],
+    closes: number[],
+    times: number[]
+): { time: number; type: "bullish" | "bearish" }[] {
+    const flips: { time: number; type: "bullish" | "bearish" }[] = [];
+
+    for (let i = 1; i < closes.length; i++) {
+        const prev = sar[i - 1];
+        const curr = sar[i];
+        if (prev === null || curr === null) continue;
+
+        const wasBelow = prev < closes[i - 1];
+        const isBelow = curr < closes[i];
+        if (!wasBelow && isBelow) {
+            flips.push({ time: times[i], type: "bullish" });
+        } else if (wasBelow && !isBelow) {
+            flips.push({ time: times[i], type: "bearish" });
+        }
+    }
+
+    return flips;
+}
+
+/**
+ * Find +DI/-DI crosses, flagging those that happen while ADX shows a trend
+ */
+export function findDMICrossovers(
+    plusDI: (number | null)[],
+    minusDI: (number | null)[],
+    adx: (number | null)[],
+    times: number[],
+    trendThreshold: number = 25
+): { time: number; type: "bullish" | "bearish"; trending: boolean }[] {
+    return findCrossovers(plusDI, minusDI, times).map((cross) => {
+        const strength = adx[times.indexOf(cross.time)];
+        return { ...cross, trending: strength !== null && strength >= trendThreshold };
+    });
+}
+
+/**
+ * Find bars where ATR jumps above `multiplier` times its own moving average
+ */
+export function findVolatilitySpikes(
+    atr: (number | null)[],
+    times: number[],
+    period: number = 20,
+    multiplier: number = 1.5
+): { time: number; ratio: number }[] {
+    const average = applyToValid(atr, (data) => calculateSMA(data, period));
+    const spikes: { time: number; ratio: number }[] = [];
+
+    for (let i = 0; i < atr.length; i++) {
+        const value = atr[i];
+        const avg = average[i];
+        const prev = i > 0 ? atr[i - 1] : null;
+        const prevAvg = i > 0 ? average[i - 1] : null;
+        if (value === null || !avg) continue;
+
+        // Only report the bar where the spike starts
+        const wasSpiking = prev !== null && !!prevAvg && prev > prevAvg * multiplier;
+        if (value > avg * multiplier && !wasSpiking) {
+            spikes.push({ time: times[i], ratio: value / avg });
+        }
+    }
+
+    return spikes;
+}
+
+/**
+ * Find Ichimoku signals: Tenkan/Kijun crosses and closes breaking out of the
+ * cloud. Pass the arrays from calculateIchimoku; only the first
+ * `times.length` entries are read.
+ */
+export function findIchimokuSignals(
+    ichimoku: {
+        tenkan: (number | null)[];
+        kijun: (number | null)[];
+        senkouA: (number | null)[];
+        senkouB: (number | null)[];
+    },
+    closes: number[],
+    times: number[]
+): { time: number; type: "tk_bullish" | "tk_bearish" | "cloud_breakout_up" | "cloud_breakout_down" }[] {
+    const signals: {
+        time: number;
+        type: "tk_bullish" | "tk_bearish" | "cloud_breakout_up" | "cloud_breakout_down";
+    }[] = findCrossovers(ichimoku.tenkan, ichimoku.kijun, times).map((cross) => ({
+        time: cross.time,
+        type: cross.type === "bullish" ? "tk_bullish" : "tk_bearish",
+    }));
+
+    const position = (i: number): "above" | "below" | "inside" | null => {
+        const a = ichimoku.senkouA[i];
+        const b = ichimoku.senkouB[i];
+        if (a === null || b === null) return null;
+        if (closes[i] > Math.max(a, b)) return "above";
+        if (closes[i] < Math.min(a, b)) return "below";
+        return "inside";
+    };
+
+    for (let i = 1; i < closes.length; i++) {
+        const prev = position(i - 1);
+        const curr = position(i);
+        if (prev === null || curr === null || prev === curr) continue;
+
+        if (curr === "above") {
+            signals.push({ time: times[i], type: "cloud_breakout_up" });
+        } else if (curr === "below") {
+            signals.push({ time: times[i], type: "cloud_breakout_down" });
+        }
+    }
+
+    return signals.sort((a, b) => a.time - b.time);
+}
+
+export interface SwingPivot {
+    index: number;
+    time: number;
+    value: number;
+    type: "high" | "low";
+}
+
+/**
+ * Find swing pivots: a pivot high is higher than the `left` values before it
+ * and at least as high as the `right` values after it (and the mirror for
+ * lows). The last `right` bars can never be confirmed as pivots.
+ */
+export function findSwingPivots(
+    highs: (number | null)[],
+    lows: (number | null)[],
+    times: number[],
+    left: number = 5,
+    right: number = left
+): SwingPivot[] {
+    const pivots: SwingPivot[] = [];
+
+    for (let i = left; i < times.length - right; i++) {
+        const high = highs[i];
+        const low = lows[i];
+
+        if (high !== null) {
+            let isHigh = true;
+            for (let j = i - left; j <= i + right && isHigh; j++) {
+                const other = highs[j];
+                if (j === i || other === null) continue;
+                isHigh = j < i ? high > other : high >= other;
+            }
+            if (isHigh) pivots.push({ index: i, time: times[i], value: high, type: "high" });
+        }
+
+        if (low !== null) {
+            let isLow = true;
+            for (let j = i - left; j <= i + right && isLow; j++) {
+                const other = lows[j];
+                if (j === i || other === null) continue;
+                isLow = j < i ? low < other : low <= other;
+            }
+            if (isLow) pivots.push({ index: i, time: times[i], value: low, type: "low" });
+        }
+    }
+
+    return pivots;
+}
+
+export type DivergenceType = "regular_bullish" | "regular_bearish" | "hidden_bullish" | "hidden_bearish";
+
+export interface Divergence {
+    type: DivergenceType;
+    fromTime: number;
+    toTime: number;
+    price: { from: number; to: number };
+    indicator: { from: number; to: number };
+    // Ready to send as HIGHLIGHT_POINTS: both swings on the price pane and on
+    // the indicator pane
+    points: HighlightPoint[];
+}
+
+export interface DivergenceOptions {
+    // Bars either side of a swing (see findSwingPivots)
+    pivotLookback?: number;
+    // How far (in bars) an oscillator swing may sit from the price swing
+    tolerance?: number;
+    // Allowed distance between the two swings, in bars
+    minBars?: number;
+    maxBars?: number;
+    includeHidden?: boolean;
+}
+
+const DIVERGENCE_LABELS: Record<DivergenceType, string> = {
+    regular_bullish: "Bullish divergence",
+    regular_bearish: "Bearish divergence",
+    hidden_bullish: "Hidden bullish divergence",
+    hidden_bearish: "Hidden bearish divergence",
+};
+
+/**
+ * Find divergences between price and an oscillator line (MACD, RSI, ...).
+ *
+ * Consecutive swing highs and lows in price are paired with oscillator swings
+ * of the same kind at (nearly) the same bars:
+ * - regular bearish: price higher high, oscillator lower high
+ * - regular bullish: price lower low, oscillator higher low
+ * - hidden bearish: price lower high, oscillator higher high
+ * - hidden bullish: price higher low, oscillator lower low
+ */
+export function findDivergences(
+    highs: number[],
+    lows: number[],
+    oscillator: (number | null)[],
+    times: number[],
+    options: DivergenceOptions = {}
+): Divergence[] {
+    const { pivotLookback = 5, tolerance = 3, minBars = 5, maxBars = 60, includeHidden = true } = options;
+
+    const pricePivots = findSwingPivots(highs, lows, times, pivotLookback);
+    const oscillatorPivots = findSwingPivots(oscillator, oscillator, times, pivotLookback);
+
+    // Oscillator swing of the same kind closest to a price swing, within tolerance
+    const matchOscillator = (pivot: SwingPivot): SwingPivot | null => {
+        let best: SwingPivot | null = null;
+        for (const candidate of oscillatorPivots) {
+            if (candidate.type !== pivot.type) continue;
+            const distance = Math.abs(candidate.index - pivot.index);
+            if (distance <= tolerance && (!best || distance < Math.abs(best.index - pivot.index))) {
+                best = candidate;
+            }
+        }
+        return best;
+    };
+
+    const divergences: Divergence[] = [];
+
+    for (const type of ["high", "low"] as const) {
+        const swings = pricePivots.filter((p) => p.type === type);
+
+        for (let i = 1; i < swings.length; i++) {
+            const prev = swings[i - 1];
+            const curr = swings[i];
+            const bars = curr.index - prev.index;
+            if (bars < minBars || bars > maxBars) continue;
+
+            const prevOsc = matchOscillator(prev);
+            const currOsc = matchOscillator(curr);
+            if (!prevOsc || !currOsc || prevOsc.index === currOsc.index) continue;
+
+            const priceUp = curr.value > prev.value;
+            const oscillatorUp = currOsc.value > prevOsc.value;
+            if (curr.value === prev.value || currOsc.value === prevOsc.value || priceUp === oscillatorUp) {
+                continue;
+            }
+
+            let divergenceType: DivergenceType;
+            if (type === "high") {
+                divergenceType = priceUp ? "regular_bearish" : "hidden_bearish";
+            } else {
+                divergenceType = priceUp ? "hidden_bullish" : "regular_bullish";
+            }
+            if (!includeHidden && divergenceType.startsWith("hidden")) continue;
+
+            const label = DIVERGENCE_LABELS[divergenceType];
+            const priceLabel = type === "high" ? (priceUp ? "HH" : "LH") : priceUp ? "HL" : "LL";
+            const oscillatorLabel = type === "high" ? (oscillatorUp ? "HH" : "LH") : oscillatorUp ? "HL" : "LL";
+
+            divergences.push({
+                type: divergenceType,
+                fromTime: prev.time,
+                toTime: curr.time,
+                price: { from: prev.value, to: curr.value },
+                indicator: { from: prevOsc.value, to: currOsc.value },
+                points: [
+                    { time: prev.time, price: prev.value, pane: "price", label },
+                    { time: curr.time, price: curr.value, pane: "price", label: `${label}: price ${priceLabel}` },
+                    { time: prevOsc.time, price: prevOsc.value, pane: "indicator", label },
+                    {
+                        time: currOsc.time,
+                        price: currOsc.value,
+                        pane: "indicator",
+                        label: `${label}: indicator ${oscillatorLabel}`,
+                    },
+                ],
+            });
+        }
+    }
+
+    return divergences.sort((a, b) => a.toTime - b.toTime);
+}
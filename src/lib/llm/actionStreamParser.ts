@@ -0,0 +1,87 @@
+/**
+ * Incremental parser for streamed emit_chart_actions arguments. The model
+ * sends the JSON in small fragments; each element of the top-level `actions`
+ * array is parsed as soon as its closing brace arrives, so the chart can
+ * update before the rest of the arguments (and the explanation) have been
+ * generated. Elements are passed on unvalidated (see actionValidator).
+ * Nested arrays such as lessonOptions[].actions are not emitted.
+ */
+export interface ActionStreamParser {
+    push: (fragment: string) => void;
+}
+
+export function createActionStreamParser(onAction: (raw: unknown) => void): ActionStreamParser {
+    let buffer = "";
+    // Scan position in buffer
+    let position = 0;
+    let inString = false;
+    let escaped = false;
+    // Open brackets, innermost last
+    const stack: ("{" | "[")[] = [];
+    // Start of the last string at the root object level, to know which key an array belongs to
+    let stringStart = -1;
+    let lastRootString = "";
+    let actionsArrayDepth = -1;
+    let actionStart = -1;
+
+    const emit = (json: string) => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (e) {
+            console.warn("Unparseable streamed action skipped:", json, e);
+            return;
+        }
+        onAction(parsed);
+    };
+
+    return {
+        push: (fragment) => {
+            buffer += fragment;
+
+            for (; position < buffer.length; position++) {
+                const char = buffer[position];
+
+                if (inString) {
+                    if (escaped) {
+                        escaped = false;
+                    } else if (char === "\\") {
+                        escaped = true;
+                    } else if (char === '"') {
+                        inString = false;
+                        if (stack.length === 1 && stringStart >= 0) {
+                            lastRootString = buffer.slice(stringStart + 1, position);
+                        }
+                    }
+                    continue;
+                }
+
+                switch (char) {
+                    case '"':
+                        inString = true;
+                        stringStart = stack.length === 1 ? position : -1;
+                        break;
+                    case "{":
+                        stack.push("{");
+                        if (stack.length === actionsArrayDepth + 1) actionStart = position;
+                        break;
+                    case "[":
+                        stack.push("[");
+                        if (stack.length === 2 && lastRootString === "actions") actionsArrayDepth = 2;
+                        break;
+                    case "}":
+                        stack.pop();
+                        if (actionStart >= 0 && stack.length === actionsArrayDepth) {
+                            emit(buffer.slice(actionStart, position + 1));
+                            actionStart = -1;
+                        }
+                        break;
+                    case "]":
+                        if (stack.length === actionsArrayDepth) actionsArrayDepth = -1;
+                        stack.pop();
+                        break;
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,351 @@
+import { ActionIssue, Candle, ChartAction, ChartActionSchema, IndicatorType } from "@/lib/schema/chartActions";
+import { createIndicatorId, resolveIndicatorParams } from "@/lib/indicatorRegistry";
+import { getMarketDataProvider } from "@/lib/market";
+import { isTimeframe, timeframeSeconds } from "@/lib/timeframes";
+import type { ChartContext } from "./openaiClient";
+
+// Symbol lists change rarely; they are refetched after this long
+const SYMBOLS_TTL_MS = 60 * 60 * 1000;
+
+let symbolCache: { provider: string; symbols: Set<string>; fetchedAt: number } | null = null;
+
+/**
+ * Symbols the market data provider serves, or null when they cannot be listed
+ * (symbols are then not checked)
+ */
+async function knownSymbols(): Promise<Set<string> | null> {
+    const provider = getMarketDataProvider();
+    if (!provider) return null;
+    if (
+        symbolCache &&
+        symbolCache.provider === provider.name &&
+        Date.now() - symbolCache.fetchedAt < SYMBOLS_TTL_MS
+    ) {
+        return symbolCache.symbols;
+    }
+
+    try {
+        const symbols = new Set(await provider.listSymbols());
+        symbolCache = { provider: provider.name, symbols, fetchedAt: Date.now() };
+        return symbols;
+    } catch (error) {
+        console.warn("[Action Validator] Symbol list unavailable, symbols not checked:", error);
+        return null;
+    }
+}
+
+// Closest time in a sorted list
+function nearestTime(times: number[], time: number): number {
+    let lo = 0;
+    let hi = times.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] < time) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo > 0 && time - times[lo - 1] <= times[lo] - time ? times[lo - 1] : times[lo];
+}
+
+// Checks model-emitted actions in order, recording what it repaired or rejected
+export interface ActionValidator {
+    // The action, possibly repaired, or null when rejected
+    validate(raw: unknown): Promise<ChartAction | null>;
+    // A validator starting from the current chart state, for a lesson
+    // option's actions; its issues are recorded here, tagged with the lesson
+    fork(lesson: string): ActionValidator;
+    // The next actions are the model's resends of the rejected ones: each
+    // settles the rejection of its action type rather than adding an issue
+    expectCorrections(): void;
+    readonly issues: ActionIssue[];
+}
+
+// Chart state the actions are checked against, updated as accepted actions change it
+interface ValidatorState {
+    timeframe: string;
+    // Loaded candle times; null once an action loads other candles
+    times: number[] | null;
+    indicators: { id: string; type: string }[];
+}
+
+/**
+ * Validator for actions running on the chart described by the context and
+ * its loaded candles. Each action is schema-checked, then its references are
+ * verified: times must fall within the loaded candles (and are snapped to the
+ * nearest one), ranges must run forwards, symbols and timeframes must exist
+ * and indicator ids must be on the chart. Small problems are repaired,
+ * others rejected.
+ */
+export function createActionValidator(context: ChartContext, candles: Candle[]): ActionValidator {
+    return validatorFor(
+        {
+            timeframe: context.timeframe,
+            times: candles.length > 0 ? candles.map((c) => c.time) : null,
+            indicators: context.indicators.map((i) => ({ id: i.id, type: i.name })),
+        },
+        [],
+        undefined
+    );
+}
+
+function validatorFor(state: ValidatorState, issues: ActionIssue[], lesson: string | undefined): ActionValidator {
+    // Rejections a correction turn is expected to resend
+    let awaiting: ActionIssue[] = [];
+    const step = () => (isTimeframe(state.timeframe) ? timeframeSeconds(state.timeframe) : 0);
+
+    // Models sometimes send milliseconds
+    const toSeconds = (time: number, field: string, notes: string[]) => {
+        if (time <= 1e12) return time;
+        notes.push(`${field} converted from milliseconds`);
+        return Math.floor(time / 1000);
+    };
+
+    const snapTime = (time: number, field: string, notes: string[]): number => {
+        const seconds = toSeconds(time, field, notes);
+        const { times } = state;
+        if (!times) return seconds;
+
+        const first = times[0];
+        const last = times[times.length - 1];
+        if (seconds < first - step() || seconds > last + step()) {
+            throw new Error(`${field} ${seconds} is outside the loaded candles (${first} to ${last})`);
+        }
+        const snapped = nearestTime(times, seconds);
+        if (snapped !== seconds) notes.push(`${field} snapped from ${seconds} to candle ${snapped}`);
+        return snapped;
+    };
+
+    const checkRange = (fromTime: number, toTime: number, field: string, notes: string[]) => {
+        let from = toSeconds(fromTime, `${field} start`, notes);
+        let to = toSeconds(toTime, `${field} end`, notes);
+        if (from > to) {
+            [from, to] = [to, from];
+            notes.push(`${field} start and end swapped`);
+        }
+
+        const { times } = state;
+        if (!times) return { from, to };
+
+        const first = times[0];
+        const last = times[times.length - 1];
+        if (to < first - step() || from > last + step()) {
+            throw new Error(`${field} ${from} to ${to} does not overlap the loaded candles (${first} to ${last})`);
+        }
+        const snapped = {
+            from: nearestTime(times, Math.max(from, first)),
+            to: nearestTime(times, Math.min(to, last)),
+        };
+        if (snapped.from !== from || snapped.to !== to) {
+            notes.push(`${field} fitted to candles ${snapped.from} to ${snapped.to}`);
+        }
+        return snapped;
+    };
+
+    // Exchange symbols are upper case without separators, e.g. "btc/usdt" -> "BTCUSDT"
+    const checkSymbol = async (symbol: string, notes: string[]): Promise<string> => {
+        const normalized = symbol.toUpperCase().replace(/[^A-Z0-9]/g, "");
+        const symbols = await knownSymbols();
+        let resolved = normalized;
+        if (symbols && !symbols.has(normalized)) {
+            // A bare base asset ("BTC") means its USDT pair
+            if (!symbols.has(`${normalized}USDT`)) throw new Error(`unknown symbol ${symbol}`);
+            resolved = `${normalized}USDT`;
+        }
+        if (resolved !== symbol) notes.push(`symbol ${symbol} read as ${resolved}`);
+        return resolved;
+    };
+
+    // An instance id or indicator type on the chart, for indicator-pane marks
+    const checkIndicatorRef = (ref: string | undefined) => {
+        if (ref === undefined) return;
+        if (!state.indicators.some((i) => i.id === ref || i.type === ref)) {
+            throw new Error(`indicator ${ref} is not on the chart`);
+        }
+    };
+
+    // UPDATE_INDICATOR_PARAMS / REMOVE_INDICATOR target: an unknown id falls
+    // back to the latest instance of the type, as the chart does without an id.
+    // A known id must be an instance of the named type.
+    const checkIndicatorTarget = <T extends { id?: string; indicator?: IndicatorType }>(
+        action: T,
+        notes: string[]
+    ): T => {
+        const byId = action.id !== undefined ? state.indicators.find((i) => i.id === action.id) : undefined;
+        if (byId) {
+            if (action.indicator && byId.type !== action.indicator) {
+                throw new Error(`${action.id} is a ${byId.type} indicator, not ${action.indicator}`);
+            }
+            return action;
+        }
+        if (action.indicator && state.indicators.some((i) => i.type === action.indicator)) {
+            if (action.id === undefined) return action;
+            notes.push(`unknown id ${action.id}, using the latest ${action.indicator}`);
+            return { ...action, id: undefined };
+        }
+        throw new Error(`${action.id ?? action.indicator} is not on the chart`);
+    };
+
+    const check = async (action: ChartAction, notes: string[]): Promise<ChartAction> => {
+        switch (action.type) {
+            case "SET_SYMBOL": {
+                const symbol = await checkSymbol(action.symbol, notes);
+                state.times = null;
+                return { ...action, symbol };
+            }
+            case "SET_TIMEFRAME":
+                state.timeframe = action.timeframe;
+                state.times = null;
+                return action;
+            case "LOAD_CANDLES": {
+                if (!isTimeframe(action.timeframe)) throw new Error(`unknown timeframe ${action.timeframe}`);
+                const symbol = await checkSymbol(action.symbol, notes);
+                let from = action.from !== undefined ? toSeconds(action.from, "from", notes) : undefined;
+                let to = action.to !== undefined ? toSeconds(action.to, "to", notes) : undefined;
+                if (from !== undefined && to !== undefined) {
+                    if (from === to) throw new Error("from and to are the same time");
+                    if (from > to) {
+                        [from, to] = [to, from];
+                        notes.push("from and to swapped");
+                    }
+                }
+                if (from !== undefined && from > Date.now() / 1000) throw new Error(`from ${from} is in the future`);
+                state.timeframe = action.timeframe;
+                state.times = null;
+                return { ...action, symbol, from, to };
+            }
+            case "ADD_INDICATOR": {
+                const ids = state.indicators.map((i) => i.id);
+                const existing = state.indicators.find((i) => i.id === action.id);
+                if (existing && existing.type !== action.indicator) {
+                    throw new Error(`${action.id} is already a ${existing.type} indicator; use a new id`);
+                }
+                if (!existing) {
+                    const params = resolveIndicatorParams(action.indicator, action.params);
+                    const id = action.id ?? createIndicatorId(action.indicator, params.data ?? {}, ids);
+                    state.indicators.push({ id, type: action.indicator });
+                }
+                return action;
+            }
+            case "UPDATE_INDICATOR_PARAMS":
+                return checkIndicatorTarget(action, notes);
+            case "REMOVE_INDICATOR": {
+                const target = checkIndicatorTarget(action, notes);
+                state.indicators = state.indicators.filter((i) =>
+                    target.id !== undefined ? i.id !== target.id : i.type !== target.indicator
+                );
+                return target;
+            }
+            case "CLEAR_INDICATORS":
+                state.indicators = [];
+                return action;
+            case "HIGHLIGHT_POINTS": {
+                // Bad points are dropped; the action is only rejected when none remain
+                const points = action.points.flatMap((point, index) => {
+                    try {
+                        checkIndicatorRef(point.indicator);
+                        return [{ ...point, time: snapTime(point.time, `point ${index + 1} time`, notes) }];
+                    } catch (error) {
+                        notes.push(`point ${index + 1} dropped: ${(error as Error).message}`);
+                        return [];
+                    }
+                });
+                if (points.length === 0) throw new Error(`no valid points (${notes.join("; ")})`);
+                return { ...action, points };
+            }
+            case "HIGHLIGHT_REGION": {
+                checkIndicatorRef(action.region.indicator);
+                const { from, to } = checkRange(action.region.fromTime, action.region.toTime, "region", notes);
+                return { ...action, region: { ...action.region, fromTime: from, toTime: to } };
+            }
+            case "ADD_ANNOTATION": {
+                checkIndicatorRef(action.annotation.indicator);
+                const time = snapTime(action.annotation.time, "annotation time", notes);
+                return { ...action, annotation: { ...action.annotation, time } };
+            }
+            case "FOCUS_RANGE": {
+                const { from, to } = checkRange(action.range.fromTime, action.range.toTime, "range", notes);
+                return { ...action, range: { fromTime: from, toTime: to } };
+            }
+            case "DRAW_TRENDLINE":
+            case "DRAW_RAY":
+            case "DRAW_RECTANGLE":
+            case "DRAW_FIBONACCI": {
+                const start = { ...action.start, time: snapTime(action.start.time, "start time", notes) };
+                const end = { ...action.end, time: snapTime(action.end.time, "end time", notes) };
+                // A line through two points on one candle would be vertical
+                if ((action.type === "DRAW_TRENDLINE" || action.type === "DRAW_RAY") && start.time === end.time) {
+                    throw new Error("start and end are on the same candle");
+                }
+                return { ...action, start, end };
+            }
+            default:
+                return action;
+        }
+    };
+
+    return {
+        issues,
+
+        async validate(raw) {
+            const type =
+                raw && typeof raw === "object" && typeof (raw as { type?: unknown }).type === "string"
+                    ? (raw as { type: string }).type
+                    : "unknown";
+            const original = awaiting.find((issue) => issue.action === type);
+            if (original) awaiting = awaiting.filter((issue) => issue !== original);
+            // A failed resend replaces the rejection it was meant to fix, so it isn't counted twice
+            const record = (status: ActionIssue["status"], message: string) => {
+                const issue = { action: type, status, message, ...(lesson ? { lesson } : {}) };
+                if (original && status === "rejected") issues[issues.indexOf(original)] = issue;
+                else issues.push(issue);
+            };
+
+            const parsed = ChartActionSchema.safeParse(raw);
+            if (!parsed.success) {
+                record(
+                    "rejected",
+                    parsed.error.issues.map((issue) => `${issue.path.join(".") || "action"}: ${issue.message}`).join("; ")
+                );
+                return null;
+            }
+
+            const notes: string[] = [];
+            try {
+                const action = await check(parsed.data, notes);
+                if (original) {
+                    issues[issues.indexOf(original)] = {
+                        ...original,
+                        status: "corrected",
+                        message: `fixed when resent (was: ${original.message})`,
+                    };
+                }
+                if (notes.length > 0) record("repaired", notes.join("; "));
+                return action;
+            } catch (error) {
+                record("rejected", (error as Error).message);
+                return null;
+            }
+        },
+
+        fork(lessonTitle) {
+            return validatorFor({ ...state, indicators: [...state.indicators] }, issues, lessonTitle);
+        },
+
+        expectCorrections() {
+            awaiting = issues.filter((issue) => issue.status === "rejected" && !issue.lesson);
+        },
+    };
+}
+
+/**
+ * Short correction turn listing the rejected actions, for the model to
+ * resend fixed versions. Null when nothing needs correcting.
+ */
+export function correctionMessage(issues: ActionIssue[]): string | null {
+    const rejected = issues.filter((issue) => issue.status === "rejected" && !issue.lesson);
+    if (rejected.length === 0) return null;
+
+    const lines = rejected.map((issue) => `- ${issue.action}: ${issue.message}`);
+    return `The other chart actions were applied, but these were rejected:
+${lines.join("\n")}
+Call emit_chart_actions again with corrected versions of only these actions, using times from the chart context or tool results. If they cannot be fixed, call it with an empty actions list. Do not repeat your explanation.`;
+}
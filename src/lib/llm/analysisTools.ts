@@ -0,0 +1,387 @@
+import { z } from "zod";
+import { Candle, Timeframe, TimeframeSchema } from "@/lib/schema/chartActions";
+import {
+    INDICATOR_TYPES,
+    IndicatorType,
+    computeIndicatorLines,
+    mainIndicatorLine,
+    resolveIndicatorParams,
+} from "@/lib/indicatorRegistry";
+import { findCrossovers, findDivergences } from "@/lib/indicators";
+import { getMarketDataProvider } from "@/lib/market";
+import { getCachedCandles } from "@/lib/market/candleCache";
+import { LLMTool } from "@/lib/llm/providers";
+
+/**
+ * Read-only analysis tools the model can call before emitting chart actions.
+ * They run server-side against the same candles the chart has loaded, so
+ * highlights and annotations point at bars that exist.
+ */
+
+// Candles loaded on the chart, as reported by the client
+export interface AnalysisSource {
+    symbol: string;
+    timeframe: string;
+    loadedFrom: number | null;
+    loadedTo: number | null;
+}
+
+export interface AnalysisSession {
+    // The loaded candles, fetched on first use
+    candles: () => Promise<Candle[]>;
+    /**
+     * Run a tool call and return its result as JSON for the model. Errors
+     * are returned as `{ error }` so the model can correct its arguments.
+     */
+    run: (name: string, rawArguments: string) => Promise<string>;
+}
+
+// Rows returned per call; the model can narrow from/to for more detail
+const MAX_ROWS = 120;
+// Crossovers/divergences returned per call, most recent first kept
+const MAX_EVENTS = 50;
+// Results longer than this are replaced by an error asking for a narrower window
+const MAX_RESULT_CHARS = 20000;
+// Matches the candles route cap
+const MAX_CANDLES = 5000;
+// Chart default when the client did not report a loaded range
+const DEFAULT_CANDLES = 500;
+
+const TimeRangeShape = {
+    from: z.number().optional(),
+    to: z.number().optional(),
+};
+
+const IndicatorRefShape = {
+    indicator: z.enum(INDICATOR_TYPES),
+    params: z.record(z.string(), z.number()).optional(),
+};
+
+const GetCandlesArgsSchema = z.object({
+    ...TimeRangeShape,
+    limit: z.number().int().positive().max(MAX_ROWS).optional(),
+});
+
+const ComputeIndicatorArgsSchema = z.object({
+    ...IndicatorRefShape,
+    ...TimeRangeShape,
+    limit: z.number().int().positive().max(MAX_ROWS).optional(),
+});
+
+const LineRefSchema = z.object({
+    ...IndicatorRefShape,
+    output: z.string().optional(),
+});
+
+const FindCrossoversArgsSchema = z
+    .object({
+        line: LineRefSchema,
+        other: LineRefSchema.optional(),
+        level: z.number().optional(),
+        ...TimeRangeShape,
+    })
+    .refine((args) => args.other !== undefined || args.level !== undefined, {
+        message: "Either other or level is required",
+    });
+
+const FindDivergencesArgsSchema = z.object({
+    ...IndicatorRefShape,
+    output: z.string().optional(),
+    pivotLookback: z.number().int().min(1).max(20).optional(),
+    includeHidden: z.boolean().optional(),
+    ...TimeRangeShape,
+});
+
+const SummarizeRangeArgsSchema = z.object(TimeRangeShape);
+
+const timeRangeProperties = {
+    from: { type: "number", description: "Start of the window (unix seconds), defaults to the first loaded candle" },
+    to: { type: "number", description: "End of the window (unix seconds), defaults to the last loaded candle" },
+};
+
+const indicatorProperties = {
+    indicator: { type: "string", enum: INDICATOR_TYPES },
+    params: { type: "object", description: "Indicator params; defaults are used for missing ones" },
+};
+
+const lineRef = {
+    type: "object",
+    properties: {
+        ...indicatorProperties,
+        output: {
+            type: "string",
+            description: "Output line, e.g. macd/signal/histogram for MACD, k/d for STOCH. Defaults to the main line",
+        },
+    },
+    required: ["indicator"],
+};
+
+export const ANALYSIS_TOOLS: LLMTool[] = [
+    {
+        type: "function",
+        function: {
+            name: "get_candles",
+            description: `OHLCV candles from the loaded chart data (the last ${MAX_ROWS} at most in the window)`,
+            parameters: {
+                type: "object",
+                properties: {
+                    ...timeRangeProperties,
+                    limit: { type: "number", description: `Number of candles, up to ${MAX_ROWS}` },
+                },
+            },
+        },
+    },
+    {
+        type: "function",
+        function: {
+            name: "compute_indicator",
+            description:
+                "Compute an indicator over the loaded candles and return its values per candle time. Bands are returned as <output>Upper/<output>Lower",
+            parameters: {
+                type: "object",
+                properties: {
+                    ...indicatorProperties,
+                    ...timeRangeProperties,
+                    limit: { type: "number", description: `Number of rows, up to ${MAX_ROWS}` },
+                },
+                required: ["indicator"],
+            },
+        },
+    },
+    {
+        type: "function",
+        function: {
+            name: "find_crossovers",
+            description:
+                "Find where an indicator line crosses another line (e.g. MACD macd over signal, EMA 20 over EMA 50) or a fixed level (e.g. RSI 30, MACD 0). Returns exact candle times",
+            parameters: {
+                type: "object",
+                properties: {
+                    line: lineRef,
+                    other: { ...lineRef, description: "Second line, from the same or another indicator" },
+                    level: { type: "number", description: "Fixed level to cross, instead of other" },
+                    ...timeRangeProperties,
+                },
+                required: ["line"],
+            },
+        },
+    },
+    {
+        type: "function",
+        function: {
+            name: "find_divergences",
+            description:
+                "Find regular and hidden divergences between price swings and an oscillator (MACD, RSI, ...). Each result includes points ready for HIGHLIGHT_POINTS; its 'indicator' pane points name the oscillator type, replace it with the instance id when the chart has several of that type",
+            parameters: {
+                type: "object",
+                properties: {
+                    ...indicatorProperties,
+                    output: { type: "string", description: "Oscillator output line, defaults to the main line" },
+                    pivotLookback: { type: "number", description: "Bars either side of a swing (default 5)" },
+                    includeHidden: { type: "boolean", description: "Include hidden divergences (default true)" },
+                    ...timeRangeProperties,
+                },
+                required: ["indicator"],
+            },
+        },
+    },
+    {
+        type: "function",
+        function: {
+            name: "summarize_range",
+            description:
+                "Summary of a time window: open/close, change, highest high and lowest low with their times, average volume",
+            parameters: { type: "object", properties: timeRangeProperties },
+        },
+    },
+];
+
+// Rounded so tool results stay compact
+function round(value: number | null): number | null {
+    return value === null ? null : Number(value.toPrecision(6));
+}
+
+function inRange<T extends { time: number }>(items: T[], from?: number, to?: number): T[] {
+    return items.filter((item) => (from === undefined || item.time >= from) && (to === undefined || item.time <= to));
+}
+
+function resolveParams(type: IndicatorType, params?: Record<string, number>): Record<string, number> {
+    const parsed = resolveIndicatorParams(type, params);
+    if (!parsed.success) {
+        throw new Error(`Invalid params for ${type}: ${parsed.error.issues.map((i) => i.message).join(", ")}`);
+    }
+    return parsed.data;
+}
+
+function selectLine(
+    candles: Candle[],
+    ref: z.infer<typeof LineRefSchema>
+): { name: string; values: (number | null)[] } {
+    const params = resolveParams(ref.indicator, ref.params);
+    const lines = computeIndicatorLines(ref.indicator, candles, params);
+    const key = ref.output ?? mainIndicatorLine(ref.indicator);
+    const values = lines[key];
+    if (!values) {
+        throw new Error(`${ref.indicator} has no output "${key}". Outputs: ${Object.keys(lines).join(", ")}`);
+    }
+    return { name: `${ref.indicator}(${Object.values(params).join(",")}).${key}`, values };
+}
+
+/**
+ * A tool-running session for one chat request. Candles are fetched once,
+ * through the same cache as the candles route, and shared by every call.
+ */
+export function createAnalysisSession(source: AnalysisSource): AnalysisSession {
+    let candlesPromise: Promise<Candle[]> | null = null;
+
+    const loadCandles = (): Promise<Candle[]> => {
+        if (!candlesPromise) {
+            const provider = getMarketDataProvider();
+            if (!provider) return Promise.reject(new Error("No market data provider configured"));
+
+            const parsedTimeframe = TimeframeSchema.safeParse(source.timeframe);
+            const timeframe: Timeframe = parsedTimeframe.success ? parsedTimeframe.data : "1d";
+            const from = source.loadedFrom ?? undefined;
+            const to = source.loadedTo ?? undefined;
+            const limit = from !== undefined && to !== undefined ? MAX_CANDLES : DEFAULT_CANDLES;
+
+            candlesPromise = getCachedCandles(provider, { symbol: source.symbol, timeframe, limit, from, to }).then(
+                (cached) => cached.candles
+            );
+        }
+        return candlesPromise;
+    };
+
+    const tools: Record<string, (args: unknown, candles: Candle[]) => unknown> = {
+        get_candles: (args, candles) => {
+            const { from, to, limit = MAX_ROWS } = GetCandlesArgsSchema.parse(args);
+            const rows = inRange(candles, from, to);
+            return {
+                count: rows.length,
+                candles: rows.slice(-limit).map((c) => ({
+                    time: c.time,
+                    open: round(c.open),
+                    high: round(c.high),
+                    low: round(c.low),
+                    close: round(c.close),
+                    volume: round(c.volume ?? null),
+                })),
+            };
+        },
+
+        compute_indicator: (args, candles) => {
+            const { indicator, params, from, to, limit = MAX_ROWS } = ComputeIndicatorArgsSchema.parse(args);
+            const resolved = resolveParams(indicator, params);
+            const lines = computeIndicatorLines(indicator, candles, resolved);
+            const rows = inRange(
+                candles.map((candle, i) => {
+                    const row: Record<string, number | null> = { time: candle.time };
+                    for (const [key, values] of Object.entries(lines)) row[key] = round(values[i] ?? null);
+                    return row as { time: number } & Record<string, number | null>;
+                }),
+                from,
+                to
+            );
+            return { indicator, params: resolved, count: rows.length, values: rows.slice(-limit) };
+        },
+
+        find_crossovers: (args, candles) => {
+            const { line, other, level, from, to } = FindCrossoversArgsSchema.parse(args);
+            const times = candles.map((c) => c.time);
+            const a = selectLine(candles, line);
+            const b = other
+                ? selectLine(candles, other)
+                : { name: String(level), values: candles.map(() => level ?? 0) };
+
+            const crossovers = inRange(findCrossovers(a.values, b.values, times), from, to).map((cross) => {
+                const i = times.indexOf(cross.time);
+                return {
+                    time: cross.time,
+                    // bullish: the line crossed above; bearish: below
+                    type: cross.type,
+                    value: round(a.values[i]),
+                    close: round(candles[i].close),
+                };
+            });
+            return { line: a.name, other: b.name, count: crossovers.length, crossovers: crossovers.slice(-MAX_EVENTS) };
+        },
+
+        find_divergences: (args, candles) => {
+            const { indicator, params, output, pivotLookback, includeHidden, from, to } =
+                FindDivergencesArgsSchema.parse(args);
+            const line = selectLine(candles, { indicator, params, output });
+            const divergences = findDivergences(
+                candles.map((c) => c.high),
+                candles.map((c) => c.low),
+                line.values,
+                candles.map((c) => c.time),
+                { pivotLookback, includeHidden }
+            ).filter((d) => (from === undefined || d.fromTime >= from) && (to === undefined || d.toTime <= to));
+            return {
+                oscillator: line.name,
+                count: divergences.length,
+                divergences: divergences.slice(-MAX_EVENTS).map((d) => ({
+                    ...d,
+                    price: { from: round(d.price.from), to: round(d.price.to) },
+                    indicator: { from: round(d.indicator.from), to: round(d.indicator.to) },
+                    // Indicator-pane points name the oscillator analysed, so they land in its pane
+                    points: d.points.map((p) => ({
+                        ...p,
+                        price: p.price === undefined ? undefined : round(p.price),
+                        indicator: p.pane === "indicator" ? indicator : p.indicator,
+                    })),
+                })),
+            };
+        },
+
+        summarize_range: (args, candles) => {
+            const { from, to } = SummarizeRangeArgsSchema.parse(args);
+            const rows = inRange(candles, from, to);
+            if (rows.length === 0) return { count: 0 };
+
+            const first = rows[0];
+            const last = rows[rows.length - 1];
+            const highest = rows.reduce((best, c) => (c.high > best.high ? c : best));
+            const lowest = rows.reduce((best, c) => (c.low < best.low ? c : best));
+            return {
+                count: rows.length,
+                from: first.time,
+                to: last.time,
+                open: round(first.open),
+                close: round(last.close),
+                changePercent: round(((last.close - first.open) / first.open) * 100),
+                high: { time: highest.time, price: round(highest.high) },
+                low: { time: lowest.time, price: round(lowest.low) },
+                averageVolume: round(rows.reduce((sum, c) => sum + (c.volume ?? 0), 0) / rows.length),
+                upCandles: rows.filter((c) => c.close > c.open).length,
+            };
+        },
+    };
+
+    return {
+        candles: loadCandles,
+        run: async (name: string, rawArguments: string): Promise<string> => {
+            const tool = tools[name];
+            if (!tool) return JSON.stringify({ error: `Unknown tool: ${name}` });
+
+            try {
+                const args = rawArguments ? JSON.parse(rawArguments) : {};
+                const candles = await loadCandles();
+                if (candles.length === 0) return JSON.stringify({ error: "No candles loaded" });
+                const result = JSON.stringify(tool(args, candles));
+                if (result.length > MAX_RESULT_CHARS) {
+                    return JSON.stringify({ error: "Result too large, narrow from/to or lower limit" });
+                }
+                return result;
+            } catch (error) {
+                const message =
+                    error instanceof z.ZodError
+                        ? error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ")
+                        : error instanceof Error
+                          ? error.message
+                          : String(error);
+                return JSON.stringify({ error: message });
+            }
+        },
+    };
+}
@@ -0,0 +1,261 @@
+import type { Candle } from "@/lib/schema/chartActions";
+import {
+    INDICATOR_TYPES,
+    IndicatorType,
+    IndicatorValues,
+    computeIndicatorLines,
+    getIndicatorDefinition,
+    indicatorLabel,
+    mainIndicatorLine,
+    resolveIndicatorParams,
+} from "@/lib/indicatorRegistry";
+import { findBandBreaks, findCrossovers } from "@/lib/indicators";
+import type { ChartContext } from "@/lib/llm/openaiClient";
+
+/**
+ * Chart context appended to the user's message: what is loaded and visible,
+ * the latest indicator values and their recent signals, and what is already
+ * highlighted. Sections are added in priority order until the token budget
+ * is spent, so a busy chart degrades to the most useful parts.
+ */
+
+// Rough budget for the whole context block
+export const CONTEXT_TOKEN_BUDGET = 1500;
+
+// Candles listed at the end of the visible window
+const RECENT_CANDLES = 5;
+// Signals kept per indicator instance before the budget applies
+const EVENTS_PER_INDICATOR = 5;
+
+interface ContextSection {
+    title: string;
+    // Most important first; lines are dropped from the end to fit the budget
+    lines: string[];
+}
+
+interface ChartEvent {
+    time: number;
+    text: string;
+}
+
+// About four characters per token for English and numbers
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function formatNumber(value: number | null | undefined): string {
+    if (value === null || value === undefined) return "n/a";
+    return String(Number(value.toPrecision(6)));
+}
+
+function formatDate(time: number): string {
+    return new Date(time * 1000).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function formatRange(from: number, to: number): string {
+    return `${from} to ${to} (${formatDate(from)} to ${formatDate(to)} UTC)`;
+}
+
+function lastValue(values: IndicatorValues | undefined): number | null {
+    if (!values) return null;
+    for (let i = values.length - 1; i >= 0; i--) {
+        if (values[i] !== null) return values[i];
+    }
+    return null;
+}
+
+/**
+ * Signals for one indicator instance, from its registry entry: crossovers of
+ * its signal lines, crosses of its guide levels, closes crossing a price
+ * overlay and closes outside a band
+ */
+function indicatorEvents(
+    type: IndicatorType,
+    label: string,
+    candles: Candle[],
+    lines: Record<string, IndicatorValues>
+): ChartEvent[] {
+    const definition = getIndicatorDefinition(type);
+    const times = candles.map((c) => c.time);
+    const closes = candles.map((c) => c.close);
+    const outputLabel = (key: string) => definition.outputs.find((o) => o.key === key)?.label ?? key;
+    const main = mainIndicatorLine(type);
+    const events: ChartEvent[] = [];
+
+    if (definition.signalLines) {
+        const [a, b] = definition.signalLines;
+        for (const cross of findCrossovers(lines[a] ?? [], lines[b] ?? [], times)) {
+            const direction = cross.type === "bullish" ? "above" : "below";
+            const text = `${label} ${outputLabel(a)} crossed ${direction} ${outputLabel(b)}`;
+            events.push({ time: cross.time, text });
+        }
+    }
+
+    for (const guide of definition.guides ?? []) {
+        const level = times.map(() => guide.value);
+        for (const cross of findCrossovers(lines[main] ?? [], level, times)) {
+            const direction = cross.type === "bullish" ? "above" : "below";
+            const name = guide.label ? ` (${guide.label})` : "";
+            events.push({ time: cross.time, text: `${label} crossed ${direction} ${guide.value}${name}` });
+        }
+    }
+
+    if (definition.pane === "price") {
+        if (!definition.signalLines && lines[main]) {
+            for (const cross of findCrossovers(closes, lines[main], times)) {
+                const direction = cross.type === "bullish" ? "above" : "below";
+                events.push({ time: cross.time, text: `Close crossed ${direction} ${label}` });
+            }
+        }
+        for (const output of definition.outputs.filter((o) => o.kind === "band")) {
+            const upper = lines[`${output.key}Upper`] ?? [];
+            const lower = lines[`${output.key}Lower`] ?? [];
+            for (const breakout of findBandBreaks(closes, upper, lower, times)) {
+                const side = breakout.type === "upper" ? "above" : "below";
+                events.push({ time: breakout.time, text: `Close ${side} ${label} ${breakout.type} band` });
+            }
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Drop lines from the end of each section until the total fits the budget.
+ * Sections that do not fit at all are left out.
+ */
+function fitToBudget(sections: ContextSection[], budget: number): string {
+    const output: string[] = [];
+    let used = 0;
+
+    for (const section of sections) {
+        if (section.lines.length === 0) continue;
+        const heading = `${section.title}:`;
+        let cost = estimateTokens(heading);
+
+        const kept: string[] = [];
+        for (const line of section.lines) {
+            const lineCost = estimateTokens(line);
+            if (used + cost + lineCost > budget) break;
+            kept.push(line);
+            cost += lineCost;
+        }
+        if (kept.length === 0) continue;
+
+        const omitted = section.lines.length - kept.length;
+        output.push(heading, ...kept.map((line) => `- ${line}`));
+        if (omitted > 0) output.push(`- (${omitted} more omitted)`);
+        used += cost;
+    }
+
+    return output.join("\n");
+}
+
+/**
+ * Describe the chart for the model. `candles` are the loaded candles, fetched
+ * server-side; without them only what the client sent is included.
+ */
+export function buildChartContext(
+    context: ChartContext,
+    candles: Candle[],
+    tokenBudget: number = CONTEXT_TOKEN_BUDGET
+): string {
+    const visibleFrom = context.visibleFrom ?? candles[0]?.time ?? null;
+    const visibleTo = context.visibleTo ?? candles[candles.length - 1]?.time ?? null;
+    const inVisibleWindow = (time: number) =>
+        (visibleFrom === null || time >= visibleFrom) && (visibleTo === null || time <= visibleTo);
+    const visible = candles.filter((c) => inVisibleWindow(c.time));
+
+    const chart: string[] = [`Symbol: ${context.symbol}`, `Timeframe: ${context.timeframe}`];
+    if (candles.length > 0) {
+        const loaded = formatRange(candles[0].time, candles[candles.length - 1].time);
+        chart.push(`Loaded: ${candles.length} candles, ${loaded}`);
+    }
+    if (visibleFrom !== null && visibleTo !== null) {
+        chart.push(`Visible: ${formatRange(visibleFrom, visibleTo)}`);
+    }
+
+    const window: string[] = [];
+    const recent: string[] = [];
+    if (visible.length > 0) {
+        const first = visible[0];
+        const last = visible[visible.length - 1];
+        const highest = visible.reduce((best, c) => (c.high > best.high ? c : best));
+        const lowest = visible.reduce((best, c) => (c.low < best.low ? c : best));
+        const averageVolume = visible.reduce((sum, c) => sum + (c.volume ?? 0), 0) / visible.length;
+        const change = ((last.close - first.open) / first.open) * 100;
+        const upCandles = visible.filter((c) => c.close > c.open).length;
+        window.push(
+            `${visible.length} candles, open ${formatNumber(first.open)}, close ${formatNumber(last.close)}`,
+            `Change ${formatNumber(change)}%, ${upCandles} up candles`,
+            `High ${formatNumber(highest.high)} at ${highest.time}, low ${formatNumber(lowest.low)} at ${lowest.time}`,
+            `Average volume ${formatNumber(averageVolume)}`
+        );
+        for (const c of visible.slice(-RECENT_CANDLES).reverse()) {
+            const values = [c.open, c.high, c.low, c.close, c.volume].map(formatNumber).join(" ");
+            recent.push(`${c.time} ${values}`);
+        }
+    }
+
+    const indicators: string[] = [];
+    const events: ChartEvent[] = [];
+    for (const instance of context.indicators) {
+        const type = INDICATOR_TYPES.find((t) => t === instance.name);
+        const parsed = type ? resolveIndicatorParams(type, instance.params) : null;
+        if (!type || !parsed?.success) {
+            indicators.push(`${instance.id}: ${instance.name}(${JSON.stringify(instance.params)})`);
+            continue;
+        }
+
+        const label = indicatorLabel(type, parsed.data);
+        if (candles.length === 0) {
+            indicators.push(`${instance.id}: ${label}`);
+            continue;
+        }
+
+        const lines = computeIndicatorLines(type, candles, parsed.data);
+        const values = Object.entries(lines)
+            .map(([key, series]) => `${key}=${formatNumber(lastValue(series))}`)
+            .join(", ");
+        indicators.push(`${instance.id}: ${label} latest ${values}`);
+
+        events.push(
+            ...indicatorEvents(type, `${label} [${instance.id}]`, candles, lines)
+                .filter((event) => inVisibleWindow(event.time))
+                .slice(-EVENTS_PER_INDICATOR)
+        );
+    }
+
+    const price = (value?: number) => (value !== undefined ? ` price ${formatNumber(value)}` : "");
+    const pane = (item: { pane?: string; indicator?: string }) =>
+        item.pane === "indicator" ? ` on ${item.indicator ?? "indicator"} pane` : "";
+    const suffix = (label?: string) => (label ? `: ${label}` : "");
+    const marked: ChartEvent[] = [
+        ...(context.highlights ?? []).map((h) => ({
+            time: h.time,
+            text: `Highlight at ${h.time}${price(h.price)}${pane(h)}${suffix(h.label)}`,
+        })),
+        ...(context.regions ?? []).map((r) => ({
+            time: r.toTime,
+            text: `Region ${r.fromTime} to ${r.toTime}${pane(r)}${suffix(r.label)}`,
+        })),
+        ...(context.annotations ?? []).map((a) => ({
+            time: a.time,
+            text: `Annotation at ${a.time}${price(a.price)}${pane(a)}${suffix(a.text)}`,
+        })),
+    ];
+
+    const byRecency = (a: ChartEvent, b: ChartEvent) => b.time - a.time;
+
+    return fitToBudget(
+        [
+            { title: "Chart", lines: chart },
+            { title: "Visible Window", lines: window },
+            { title: "Active Indicators", lines: indicators.length > 0 ? indicators : ["None"] },
+            { title: "On Chart", lines: marked.sort(byRecency).map((m) => m.text) },
+            { title: "Last Visible Candles (time open high low close volume)", lines: recent },
+            { title: "Recent Signals", lines: events.sort(byRecency).map((e) => `${e.time}: ${e.text}`) },
+        ],
+        tokenBudget
+    );
+}
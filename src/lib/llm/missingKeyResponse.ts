@@ -0,0 +1,64 @@
+import { ChatCompletionResult } from "@/lib/llm/openaiClient";
+
+/**
+ * Reply used while no LLM API key is configured: setup instructions and a few
+ * lesson options that work without the model
+ */
+export const MISSING_API_KEY_RESPONSE: ChatCompletionResult = {
+    message: {
+        role: "assistant",
+        content: `I see you're asking about trading concepts! 
+
+To enable the full AI experience, please add your DeepSeek API key to the \`.env.local\` file:
+
+\`\`\`
+DEEPSEEK_API_KEY=your_key_here
+\`\`\`
+
+Or pick another model with \`LLM_PROVIDER\` (openai, gemini, local for Ollama / llama.cpp, or mock for scripted offline replies).
+
+In the meantime, you can explore the chart manually using the controls above. Try:
+• Click the **MACD**, **RSI**, or **EMA** buttons to add indicators
+• Change the **symbol** or **timeframe** to explore different charts
+• Use the chart's built-in zoom and pan features`,
+    },
+    lessonOptions: [
+        {
+            id: "add-macd",
+            title: "Add MACD Indicator",
+            description: "Display the MACD indicator on the chart",
+            actions: [
+                {
+                    type: "ADD_INDICATOR",
+                    indicator: "MACD",
+                    params: { fast: 12, slow: 26, signal: 9 },
+                },
+            ],
+        },
+        {
+            id: "add-rsi",
+            title: "Add RSI Indicator",
+            description: "Display the RSI indicator on the chart",
+            actions: [
+                {
+                    type: "ADD_INDICATOR",
+                    indicator: "RSI",
+                    params: { period: 14 },
+                },
+            ],
+        },
+        {
+            id: "add-ema",
+            title: "Add EMA Overlay",
+            description: "Display a 20-period EMA on the price chart",
+            actions: [
+                {
+                    type: "ADD_INDICATOR",
+                    indicator: "EMA",
+                    params: { period: 20 },
+                },
+            ],
+        },
+    ],
+    actions: [],
+};
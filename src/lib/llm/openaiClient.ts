@@ -1,15 +1,23 @@
-import OpenAI from "openai";
-import { ChartAction, LessonOption, ChartActionSchema } from "@/lib/schema/chartActions";
+import {
+    ActionIssue,
+    Annotation,
+    ChartAction,
+    HighlightPoint,
+    HighlightRegion,
+    LessonOption,
+} from "@/lib/schema/chartActions";
 import { z } from "zod";
-
-// DeepSeek API client (OpenAI-compatible)
-const client = new OpenAI({
-    apiKey: process.env.DEEPSEEK_API_KEY || "",
-    baseURL: "https://api.deepseek.com",
-});
+import { TIMEFRAME_PATTERN, TIMEFRAME_PRESETS } from "@/lib/timeframes";
+import { INDICATOR_TYPES, describeIndicators } from "@/lib/indicatorRegistry";
+import { CANDLE_PATTERN_TYPES } from "@/lib/patterns";
+import { ANALYSIS_TOOLS, AnalysisSession, createAnalysisSession } from "@/lib/llm/analysisTools";
+import { ActionStreamParser, createActionStreamParser } from "@/lib/llm/actionStreamParser";
+import { ActionValidator, correctionMessage, createActionValidator } from "@/lib/llm/actionValidator";
+import { LLMMessage, LLMProvider, LLMTool, LLMToolCall } from "@/lib/llm/providers";
+import { buildChartContext } from "@/lib/llm/chartContext";
 
 // Tool definition for emit_chart_actions
-const emitChartActionsTool: OpenAI.Chat.Completions.ChatCompletionTool = {
+const emitChartActionsTool: LLMTool = {
     type: "function",
     function: {
         name: "emit_chart_actions",
@@ -32,17 +40,86 @@ const emitChartActionsTool: OpenAI.Chat.Completions.ChatCompletionTool = {
                                     "LOAD_CANDLES",
                                     "ADD_INDICATOR",
                                     "UPDATE_INDICATOR_PARAMS",
+                                    "REMOVE_INDICATOR",
                                     "HIGHLIGHT_POINTS",
                                     "HIGHLIGHT_REGION",
                                     "ADD_ANNOTATION",
                                     "FOCUS_RANGE",
+                                    "SHOW_MARKET_STRUCTURE",
+                                    "DRAW_TRENDLINE",
+                                    "DRAW_RAY",
+                                    "DRAW_HORIZONTAL_LINE",
+                                    "DRAW_RECTANGLE",
+                                    "DRAW_FIBONACCI",
+                                    "CLEAR_DRAWINGS",
                                     "CLEAR_HIGHLIGHTS",
                                     "CLEAR_INDICATORS",
                                 ],
                             },
                             symbol: { type: "string" },
-                            timeframe: { type: "string", enum: ["1h", "4h", "1d"] },
-                            indicator: { type: "string", enum: ["MACD", "RSI", "EMA"] },
+                            start: {
+                                type: "object",
+                                description: "DRAW_* (except DRAW_HORIZONTAL_LINE): first point",
+                                properties: { time: { type: "number" }, price: { type: "number" } },
+                                required: ["time", "price"],
+                            },
+                            end: {
+                                type: "object",
+                                description: "DRAW_* (except DRAW_HORIZONTAL_LINE): second point",
+                                properties: { time: { type: "number" }, price: { type: "number" } },
+                                required: ["time", "price"],
+                            },
+                            price: {
+                                type: "number",
+                                description: "DRAW_HORIZONTAL_LINE: price of the line",
+                            },
+                            label: {
+                                type: "string",
+                                description: "DRAW_*: text shown next to the drawing",
+                            },
+                            color: {
+                                type: "string",
+                                description: "DRAW_*: CSS colour",
+                            },
+                            levels: {
+                                type: "boolean",
+                                description: "SHOW_MARKET_STRUCTURE: draw support/resistance zones (default true)",
+                            },
+                            swings: {
+                                type: "boolean",
+                                description: "SHOW_MARKET_STRUCTURE: label swings HH/HL/LH/LL (default true)",
+                            },
+                            pivotLookback: {
+                                type: "number",
+                                description: "SHOW_MARKET_STRUCTURE: bars either side of a swing (default 5)",
+                            },
+                            maxZones: {
+                                type: "number",
+                                description: "SHOW_MARKET_STRUCTURE: maximum zones to draw (default 6)",
+                            },
+                            from: {
+                                type: "number",
+                                description: "LOAD_CANDLES range start (unix seconds)",
+                            },
+                            to: {
+                                type: "number",
+                                description: "LOAD_CANDLES range end (unix seconds)",
+                            },
+                            timeframe: {
+                                type: "string",
+                                pattern: TIMEFRAME_PATTERN.source,
+                                description: `One of ${TIMEFRAME_PRESETS.map((t) => t.id).join(", ")}, or a custom multiple such as 2h or 3d`,
+                            },
+                            indicator: {
+                                type: "string",
+                                enum: INDICATOR_TYPES,
+                                description: describeIndicators(),
+                            },
+                            id: {
+                                type: "string",
+                                description:
+                                    "Indicator instance id. Use the ids from the chart context to update or remove a specific instance; optional on ADD_INDICATOR (e.g. 'ema-50')",
+                            },
                             params: {
                                 type: "object",
                                 additionalProperties: { type: "number" },
@@ -55,7 +132,17 @@ const emitChartActionsTool: OpenAI.Chat.Completions.ChatCompletionTool = {
                                         time: { type: "number" },
                                         price: { type: "number" },
                                         pane: { type: "string", enum: ["price", "indicator"] },
+                                        indicator: {
+                                            type: "string",
+                                            description:
+                                                "With pane 'indicator': instance id or indicator type whose pane to mark; price is then the indicator value",
+                                        },
                                         label: { type: "string" },
+                                        pattern: {
+                                            type: "string",
+                                            enum: CANDLE_PATTERN_TYPES,
+                                            description: "Candlestick pattern, draws that pattern's marker",
+                                        },
                                     },
                                     required: ["time"],
                                 },
@@ -66,6 +153,10 @@ const emitChartActionsTool: OpenAI.Chat.Completions.ChatCompletionTool = {
                                     fromTime: { type: "number" },
                                     toTime: { type: "number" },
                                     pane: { type: "string", enum: ["price", "indicator"] },
+                                    indicator: {
+                                        type: "string",
+                                        description: "With pane 'indicator': instance id or indicator type to shade",
+                                    },
                                     label: { type: "string" },
                                 },
                                 required: ["fromTime", "toTime"],
@@ -77,6 +168,10 @@ const emitChartActionsTool: OpenAI.Chat.Completions.ChatCompletionTool = {
                                     price: { type: "number" },
                                     text: { type: "string" },
                                     pane: { type: "string", enum: ["price", "indicator"] },
+                                    indicator: {
+                                        type: "string",
+                                        description: "With pane 'indicator': instance id or indicator type to annotate",
+                                    },
                                 },
                                 required: ["time", "text"],
                             },
@@ -125,21 +220,41 @@ const SYSTEM_PROMPT = `You are Tradecraft, an expert trading education assistant
 3. **No Financial Advice**: Never give buy/sell recommendations. Focus on education only.
 4. **Real Examples**: Reference the actual chart data to illustrate concepts
 
-## When explaining indicators (MACD, RSI, EMA):
+## When explaining indicators:
 1. First, add the indicator to the chart using emit_chart_actions
 2. Explain what the indicator measures and how to interpret it
 3. Describe common patterns and signals
 4. Provide interactive lesson options for deeper exploration
 
 ## Chart Actions You Can Use:
-- ADD_INDICATOR: Add MACD, RSI, or EMA to the chart
-- HIGHLIGHT_POINTS: Mark specific candles or indicator values
-- HIGHLIGHT_REGION: Highlight a time range
+- LOAD_CANDLES: Load a symbol/timeframe, optionally for a historical from/to window (unix seconds)
+- ADD_INDICATOR: Add an indicator to the chart (see the indicator list below). Several instances can coexist, e.g. EMA 20 and EMA 50 for a golden cross
+- UPDATE_INDICATOR_PARAMS: Change params of an instance (pass its id)
+- REMOVE_INDICATOR: Remove an instance by id, or all instances of an indicator type
+- HIGHLIGHT_POINTS: Mark specific candles, or indicator values with pane 'indicator' and the indicator id/type; set pattern to mark a candlestick pattern (${CANDLE_PATTERN_TYPES.join(", ")})
+- HIGHLIGHT_REGION: Shade a time range on the price pane or an indicator's pane
 - ADD_ANNOTATION: Add text labels to specific points
 - FOCUS_RANGE: Zoom to a specific time window
+- SHOW_MARKET_STRUCTURE: Draw support/resistance zones (levels) and HH/HL/LH/LL swing labels (swings) computed from the loaded candles. Use it to point at real levels instead of guessing prices
+- DRAW_TRENDLINE / DRAW_RAY / DRAW_RECTANGLE: Draw between start and end points ({time, price}); a ray extends past end
+- DRAW_FIBONACCI: Fibonacci retracement of the move from start (swing start) to end (swing end)
+- DRAW_HORIZONTAL_LINE: Horizontal line at price
+- CLEAR_DRAWINGS: Remove all drawings, including the learner's own
 - CLEAR_HIGHLIGHTS: Remove all highlights
 - CLEAR_INDICATORS: Remove all indicators
 
+## Analysis Tools:
+Before pointing at specific candles, look them up instead of guessing timestamps. These tools read the candles loaded on the chart:
+- get_candles: OHLCV rows for a window
+- compute_indicator: indicator values per candle time
+- find_crossovers: exact times where a line crosses another line or a level
+- find_divergences: price/oscillator divergences with ready-made highlight points
+- summarize_range: open/close, change, high and low of a window
+Call them as needed, then finish with emit_chart_actions using the times and prices they returned.
+
+## Available Indicators:
+${describeIndicators()}
+
 ## Response Format:
 1. Provide a clear text explanation
 2. Call emit_chart_actions to update the chart
@@ -162,7 +277,21 @@ export interface ChartContext {
     timeframe: string;
     visibleFrom: number | null;
     visibleTo: number | null;
-    indicators: { name: string; params: Record<string, number> }[];
+    // First and last loaded candle, which the analysis tools work on
+    loadedFrom?: number | null;
+    loadedTo?: number | null;
+    // What is already marked on the chart
+    highlights?: HighlightPoint[];
+    regions?: HighlightRegion[];
+    annotations?: Annotation[];
+    indicators: { id: string; name: string; params: Record<string, number> }[];
+}
+
+// Per-request model selection; unset fields fall back to the environment
+export interface LLMSelection {
+    provider?: string;
+    model?: string;
+    temperature?: number;
 }
 
 export interface ChatCompletionResult {
@@ -172,22 +301,94 @@ export interface ChatCompletionResult {
     };
     lessonOptions?: LessonOption[];
     actions?: ChartAction[];
+    // Actions that were repaired to fit the chart, or rejected
+    actionIssues?: ActionIssue[];
 }
 
-export async function getChatCompletion(
-    messages: ChatMessage[],
-    chartContext: ChartContext
-): Promise<ChatCompletionResult> {
+// Tool loop limits: model calls per request, and total tokens across them.
+// Once either is reached the model is asked to answer with the data it has.
+const MAX_TOOL_ITERATIONS = 6;
+const MAX_TOTAL_TOKENS = 30000;
+// Correction turns per request for rejected chart actions
+const MAX_CORRECTION_ROUNDS = 1;
+
+// Assistant turn with tool calls, replayed to the model alongside their results
+function assistantToolTurn(content: string | null, toolCalls: LLMToolCall[]): LLMMessage {
+    return {
+        role: "assistant",
+        content: content || null,
+        tool_calls: toolCalls.map((call) => ({ id: call.id, type: "function", function: call.function })),
+    };
+}
+
+async function validateActions(rawActions: unknown, validator: ActionValidator): Promise<ChartAction[]> {
+    const actions: ChartAction[] = [];
+    for (const raw of Array.isArray(rawActions) ? rawActions : []) {
+        const action = await validator.validate(raw);
+        if (action) actions.push(action);
+    }
+    return actions;
+}
+
+/**
+ * Read the arguments of an emit_chart_actions call, checking the actions
+ * against the chart (unless they were already checked while streaming) and
+ * each lesson option's actions against the chart as the actions leave it
+ */
+async function parseEmitChartActions(
+    rawArguments: string,
+    validator: ActionValidator,
+    actionsStreamed = false
+): Promise<{ actions: ChartAction[]; lessonOptions: LessonOption[] }> {
+    let args: { actions?: unknown; lessonOptions?: unknown } | null;
+    try {
+        args = JSON.parse(rawArguments);
+    } catch (e) {
+        console.error("Failed to parse tool call arguments:", e);
+        return { actions: [], lessonOptions: [] };
+    }
+
+    const actions = actionsStreamed ? [] : await validateActions(args?.actions, validator);
+
+    const lessonOptions: LessonOption[] = [];
+    if (Array.isArray(args?.lessonOptions)) {
+        for (const opt of args.lessonOptions as LessonOption[]) {
+            lessonOptions.push({
+                id: opt.id,
+                title: opt.title,
+                description: opt.description,
+                actions: await validateActions(opt.actions, validator.fork(opt.title)),
+            });
+        }
+    }
+
+    return { actions, lessonOptions };
+}
+
+/**
+ * System prompt, history and chart context for a chat request, plus the
+ * analysis session its tool calls run against
+ */
+async function prepareConversation(messages: ChatMessage[], chartContext: ChartContext) {
+    const session = createAnalysisSession({
+        symbol: chartContext.symbol,
+        timeframe: chartContext.timeframe,
+        loadedFrom: chartContext.loadedFrom ?? null,
+        loadedTo: chartContext.loadedTo ?? null,
+    });
+
     // Add chart context to the last user message
+    const candles = await session.candles().catch((error) => {
+        console.warn("[Chat Context] Candles unavailable, sending client context only:", error);
+        return [];
+    });
     const contextInfo = `
 
 [Current Chart Context]
-Symbol: ${chartContext.symbol}
-Timeframe: ${chartContext.timeframe}
-Active Indicators: ${chartContext.indicators.length > 0 ? chartContext.indicators.map((i) => `${i.name}(${JSON.stringify(i.params)})`).join(", ") : "None"}
+${buildChartContext(chartContext, candles)}
 `;
 
-    const messagesWithContext: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const conversation: LLMMessage[] = [
         { role: "system", content: SYSTEM_PROMPT },
         ...messages.map((m, idx) => {
             if (idx === messages.length - 1 && m.role === "user") {
@@ -197,76 +398,241 @@ Active Indicators: ${chartContext.indicators.length > 0 ? chartContext.indicator
         }),
     ];
 
+    return { conversation, session, candles };
+}
+
+// Tools offered on a model call; the last allowed call and correction turns may only finish
+function toolsFor(finishOnly: boolean): LLMTool[] {
+    return finishOnly ? [emitChartActionsTool] : [emitChartActionsTool, ...ANALYSIS_TOOLS];
+}
+
+async function runAnalysisTool(session: AnalysisSession, toolCall: LLMToolCall): Promise<LLMMessage> {
+    const result = await session.run(toolCall.function.name, toolCall.function.arguments);
+    console.log("[Chat Tools]", { tool: toolCall.function.name, resultChars: result.length });
+    return { role: "tool", tool_call_id: toolCall.id, content: result };
+}
+
+export async function getChatCompletion(
+    messages: ChatMessage[],
+    chartContext: ChartContext,
+    provider: LLMProvider
+): Promise<ChatCompletionResult> {
+    const { conversation, session, candles } = await prepareConversation(messages, chartContext);
+    const validator = createActionValidator(chartContext, candles);
+
+    try {
+        const actions: ChartAction[] = [];
+        let lessonOptions: LessonOption[] = [];
+        let content: string | null = null;
+        let totalTokens = 0;
+        let corrections = 0;
+        let correcting = false;
+
+        for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+            // On the last allowed call only the final tool is offered
+            const isLastCall = iteration === MAX_TOOL_ITERATIONS - 1 || totalTokens >= MAX_TOTAL_TOKENS;
+
+            const completion = await provider.complete({
+                messages: conversation,
+                tools: toolsFor(isLastCall || correcting),
+            });
+            totalTokens += completion.totalTokens;
+            // A correction turn only resends actions; the explanation was already given
+            if (!correcting) content = completion.content;
+
+            // Process tool calls
+            let ranAnalysisTools = false;
+            let correction: string | null = null;
+            const toolResults: LLMMessage[] = [];
+            for (const toolCall of completion.toolCalls) {
+                if (toolCall.function.name === "emit_chart_actions") {
+                    const issueCount = validator.issues.length;
+                    const emitted = await parseEmitChartActions(toolCall.function.arguments, validator);
+                    actions.push(...emitted.actions);
+                    if (emitted.lessonOptions.length > 0) lessonOptions = emitted.lessonOptions;
+
+                    // Rejected actions are sent back for the model to fix
+                    const rejected =
+                        corrections < MAX_CORRECTION_ROUNDS
+                            ? correctionMessage(validator.issues.slice(issueCount))
+                            : null;
+                    if (rejected) correction = rejected;
+                    toolResults.push({
+                        role: "tool",
+                        tool_call_id: toolCall.id,
+                        content: rejected ?? "Chart actions queued",
+                    });
+                } else {
+                    ranAnalysisTools = true;
+                    toolResults.push(await runAnalysisTool(session, toolCall));
+                }
+            }
+
+            // Analysis results and corrections need another round; accepted actions are final
+            if ((!ranAnalysisTools && !correction) || isLastCall) break;
+            if (correction) corrections++;
+            correcting = !!correction && !ranAnalysisTools;
+            if (correcting) validator.expectCorrections();
+            conversation.push(assistantToolTurn(completion.content, completion.toolCalls), ...toolResults);
+        }
+
+        return {
+            message: {
+                role: "assistant",
+                content: content || "I've updated the chart for you.",
+            },
+            lessonOptions: lessonOptions.length > 0 ? lessonOptions : undefined,
+            actions: actions.length > 0 ? actions : undefined,
+            actionIssues: validator.issues.length > 0 ? validator.issues : undefined,
+        };
+    } catch (error) {
+        console.error(`LLM API error (${provider.name}):`, error);
+        throw error;
+    }
+}
+
+export interface ChatStreamHandlers {
+    // A fragment of the assistant's text
+    onText: (delta: string) => void;
+    // A chart action, as soon as it has streamed in full and validated
+    onAction: (action: ChartAction) => void;
+    // An analysis tool is about to run
+    onToolCall?: (name: string) => void;
+}
+
+// A tool call assembled from streamed fragments
+interface StreamedToolCall extends LLMToolCall {
+    parser: ActionStreamParser | null;
+}
+
+/**
+ * Streaming variant of getChatCompletion. Text and chart actions are passed
+ * to the handlers as they arrive; the resolved result carries the full text,
+ * all actions and the lesson options (which are only complete at the end).
+ */
+export async function streamChatCompletion(
+    messages: ChatMessage[],
+    chartContext: ChartContext,
+    provider: LLMProvider,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal
+): Promise<ChatCompletionResult> {
+    const { conversation, session, candles } = await prepareConversation(messages, chartContext);
+    const validator = createActionValidator(chartContext, candles);
+
     try {
-        const response = await client.chat.completions.create({
-            model: "deepseek-chat",
-            messages: messagesWithContext,
-            tools: [emitChartActionsTool],
-            tool_choice: "auto",
-            temperature: 0.7,
-            max_tokens: 2000,
-        });
-
-        const choice = response.choices[0];
-        const message = choice.message;
-
-        let actions: ChartAction[] = [];
+        const actions: ChartAction[] = [];
         let lessonOptions: LessonOption[] = [];
+        let content = "";
+        let totalTokens = 0;
+        let corrections = 0;
+        let correcting = false;
 
-        // Process tool calls
-        if (message.tool_calls && message.tool_calls.length > 0) {
-            for (const toolCall of message.tool_calls) {
-                // Check if this is a function tool call
-                if (toolCall.type === "function" && toolCall.function.name === "emit_chart_actions") {
-                    try {
-                        const args = JSON.parse(toolCall.function.arguments);
-
-                        // Validate and extract actions
-                        if (args.actions && Array.isArray(args.actions)) {
-                            for (const action of args.actions) {
-                                try {
-                                    const validatedAction = ChartActionSchema.parse(action);
-                                    actions.push(validatedAction);
-                                } catch (e) {
-                                    console.warn("Invalid action skipped:", action, e);
-                                }
+        // Validation may look up symbols, so actions are chained to keep their order
+        let validation = Promise.resolve();
+        const onAction = (raw: unknown) => {
+            validation = validation.then(async () => {
+                const action = await validator.validate(raw);
+                if (!action) return;
+                actions.push(action);
+                handlers.onAction(action);
+            });
+        };
+
+        for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+            // On the last allowed call only the final tool is offered
+            const isLastCall = iteration === MAX_TOOL_ITERATIONS - 1 || totalTokens >= MAX_TOTAL_TOKENS;
+
+            let iterationContent = "";
+            let issueCount = validator.issues.length;
+            const toolCalls: StreamedToolCall[] = [];
+
+            const request = { messages: conversation, tools: toolsFor(isLastCall || correcting), signal };
+            for await (const chunk of provider.stream(request)) {
+                switch (chunk.type) {
+                    case "usage":
+                        totalTokens += chunk.totalTokens;
+                        break;
+                    case "text":
+                        iterationContent += chunk.delta;
+                        // A correction turn only resends actions; the explanation was already given
+                        if (!correcting) handlers.onText(chunk.delta);
+                        break;
+                    case "tool_call": {
+                        let call = toolCalls[chunk.index];
+                        if (!call) {
+                            call = { id: "", function: { name: "", arguments: "" }, parser: null };
+                            toolCalls[chunk.index] = call;
+                        }
+                        if (chunk.id) call.id = chunk.id;
+                        if (chunk.name) {
+                            call.function.name += chunk.name;
+                            if (call.function.name === "emit_chart_actions") {
+                                call.parser = createActionStreamParser(onAction);
                             }
                         }
-
-                        // Extract lesson options
-                        if (args.lessonOptions && Array.isArray(args.lessonOptions)) {
-                            lessonOptions = args.lessonOptions.map((opt: LessonOption) => ({
-                                id: opt.id,
-                                title: opt.title,
-                                description: opt.description,
-                                actions: (opt.actions || [])
-                                    .map((a: ChartAction) => {
-                                        try {
-                                            return ChartActionSchema.parse(a);
-                                        } catch {
-                                            return null;
-                                        }
-                                    })
-                                    .filter(Boolean) as ChartAction[],
-                            }));
+                        if (chunk.arguments) {
+                            call.function.arguments += chunk.arguments;
+                            call.parser?.push(chunk.arguments);
                         }
-                    } catch (e) {
-                        console.error("Failed to parse tool call arguments:", e);
+                        break;
                     }
                 }
             }
+
+            await validation;
+            if (!correcting) content += iterationContent;
+
+            // Actions were checked while streaming; only lesson options are read at the end
+            let ranAnalysisTools = false;
+            let correction: string | null = null;
+            const toolResults: LLMMessage[] = [];
+            const calls: LLMToolCall[] = toolCalls
+                .filter(Boolean)
+                .map((call) => ({ id: call.id, function: call.function }));
+            for (const toolCall of calls) {
+                if (toolCall.function.name === "emit_chart_actions") {
+                    const emitted = await parseEmitChartActions(toolCall.function.arguments, validator, true);
+                    if (emitted.lessonOptions.length > 0) lessonOptions = emitted.lessonOptions;
+
+                    // Rejected actions are sent back for the model to fix
+                    const rejected =
+                        corrections < MAX_CORRECTION_ROUNDS
+                            ? correctionMessage(validator.issues.slice(issueCount))
+                            : null;
+                    issueCount = validator.issues.length;
+                    if (rejected) correction = rejected;
+                    toolResults.push({
+                        role: "tool",
+                        tool_call_id: toolCall.id,
+                        content: rejected ?? "Chart actions queued",
+                    });
+                } else {
+                    ranAnalysisTools = true;
+                    handlers.onToolCall?.(toolCall.function.name);
+                    toolResults.push(await runAnalysisTool(session, toolCall));
+                }
+            }
+
+            // Analysis results and corrections need another round; accepted actions are final
+            if ((!ranAnalysisTools && !correction) || isLastCall) break;
+            if (correction) corrections++;
+            correcting = !!correction && !ranAnalysisTools;
+            if (correcting) validator.expectCorrections();
+            conversation.push(assistantToolTurn(iterationContent, calls), ...toolResults);
         }
 
         return {
             message: {
                 role: "assistant",
-                content: message.content || "I've updated the chart for you.",
+                content: content || "I've updated the chart for you.",
             },
             lessonOptions: lessonOptions.length > 0 ? lessonOptions : undefined,
             actions: actions.length > 0 ? actions : undefined,
+            actionIssues: validator.issues.length > 0 ? validator.issues : undefined,
         };
     } catch (error) {
-        console.error("LLM API error:", error);
+        console.error(`LLM API error (${provider.name}):`, error);
         throw error;
     }
 }
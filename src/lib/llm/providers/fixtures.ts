@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { LLMMessage, messageText } from "./types";
+
+// Directory holding scripted conversations for the mock provider, one JSON file each
+export const LLM_FIXTURES_DIR =
+    process.env.MOCK_LLM_FIXTURES_DIR || path.join(process.cwd(), "data", "llm-fixtures");
+
+export interface FixtureToolCall {
+    name: string;
+    // An object, or the raw JSON string the model sent
+    arguments: Record<string, unknown> | string;
+}
+
+/**
+ * One model response. A conversation turn that calls analysis tools takes
+ * several responses: the tool calls, then the reply after their results.
+ */
+export interface FixtureTurn {
+    content?: string;
+    // How the content streams; defaults to word-sized chunks
+    chunks?: string[];
+    toolCalls?: FixtureToolCall[];
+    // Fail the request, optionally after streaming some chunks
+    error?: { message: string; afterChunks?: number };
+    // Pause before each streamed chunk
+    delayMs?: number;
+}
+
+/**
+ * A scripted conversation. `match` is a case-insensitive regex tested against
+ * the learner's latest question; fixtures without it are the fallback.
+ */
+export interface LLMFixture {
+    name?: string;
+    match?: string;
+    turns: FixtureTurn[];
+}
+
+/**
+ * The learner's latest question, without the chart context appended to it
+ */
+export function latestQuestion(messages: LLMMessage[]): string {
+    const last = [...messages].reverse().find((message) => message.role === "user");
+    if (!last) return "";
+    return messageText(last.content).split("[Current Chart Context]")[0].trim();
+}
+
+/**
+ * Index of the response being requested for the latest question: the number
+ * of assistant messages (tool rounds) since it was asked
+ */
+export function turnIndex(messages: LLMMessage[]): number {
+    let count = 0;
+    for (let i = messages.length - 1; i >= 0 && messages[i].role !== "user"; i--) {
+        if (messages[i].role === "assistant") count++;
+    }
+    return count;
+}
+
+/**
+ * Load every fixture in the directory, in file name order. A file may hold
+ * one fixture or an array of them.
+ */
+export async function loadFixtures(dir: string = LLM_FIXTURES_DIR): Promise<LLMFixture[]> {
+    let files: string[];
+    try {
+        files = (await fs.readdir(dir)).filter((file) => file.endsWith(".json")).sort();
+    } catch {
+        return [];
+    }
+
+    const fixtures: LLMFixture[] = [];
+    for (const file of files) {
+        try {
+            const parsed = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"));
+            for (const fixture of Array.isArray(parsed) ? parsed : [parsed]) {
+                if (Array.isArray(fixture?.turns)) fixtures.push({ name: file, ...fixture });
+            }
+        } catch (error) {
+            console.warn(`[Mock LLM] Skipping invalid fixture ${file}:`, error);
+        }
+    }
+    return fixtures;
+}
+
+/**
+ * First fixture whose pattern matches the question, else the first fallback
+ */
+export function findFixture(fixtures: LLMFixture[], question: string): LLMFixture | undefined {
+    const matched = fixtures.find((fixture) => {
+        if (!fixture.match) return false;
+        try {
+            return new RegExp(fixture.match, "i").test(question);
+        } catch {
+            console.warn(`[Mock LLM] Invalid match pattern in ${fixture.name}: ${fixture.match}`);
+            return false;
+        }
+    });
+    return matched ?? fixtures.find((fixture) => !fixture.match);
+}
+
+/**
+ * Store a recorded response as turn `index` of the question's fixture file.
+ * The first turn starts the file over, so re-asking a question re-records it.
+ */
+export async function recordTurn(dir: string, question: string, index: number, turn: FixtureTurn): Promise<void> {
+    const slug =
+        question
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-|-$/g, "")
+            .slice(0, 60) || "empty";
+    const file = path.join(dir, `${slug}.json`);
+
+    let fixture: LLMFixture = {
+        name: question,
+        match: `^${question.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`,
+        turns: [],
+    };
+    if (index > 0) {
+        try {
+            fixture = JSON.parse(await fs.readFile(file, "utf8"));
+        } catch {
+            // Earlier turns were not recorded; keep what we have
+        }
+    }
+    fixture.turns[index] = turn;
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 4) + "\n");
+}
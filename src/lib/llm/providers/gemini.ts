@@ -0,0 +1,206 @@
+import {
+    LLMCompletion,
+    LLMCompletionRequest,
+    LLMProvider,
+    LLMSettings,
+    LLMStreamChunk,
+    messageText,
+    toolCallNames,
+} from "./types";
+
+export interface GeminiConfig extends LLMSettings {
+    apiKey: string;
+    baseURL?: string;
+}
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+// Model ids such as "gemini-1.5-flash"; the model can come from the request,
+// so it must not be able to change the request path
+const MODEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+interface GeminiPart {
+    text?: string;
+    functionCall?: { name: string; args?: Record<string, unknown> };
+    functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+    role: "user" | "model";
+    parts: GeminiPart[];
+}
+
+interface GeminiResponse {
+    candidates?: { content?: { parts?: GeminiPart[] } }[];
+    usageMetadata?: { totalTokenCount?: number };
+}
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Translate an OpenAI-format request to a generateContent body: system
+ * messages become the system instruction, assistant tool calls become
+ * functionCall parts and tool results functionResponse parts
+ */
+function toGeminiBody({ messages, tools }: LLMCompletionRequest, settings: LLMSettings) {
+    const names = toolCallNames(messages);
+    const system: string[] = [];
+    const contents: GeminiContent[] = [];
+
+    for (const message of messages) {
+        switch (message.role) {
+            case "system":
+            case "developer":
+                system.push(messageText(message.content));
+                break;
+            case "user":
+                contents.push({ role: "user", parts: [{ text: messageText(message.content) }] });
+                break;
+            case "assistant": {
+                const parts: GeminiPart[] = [];
+                const text = messageText(message.content ?? null);
+                if (text) parts.push({ text });
+                for (const call of message.tool_calls ?? []) {
+                    if (call.type !== "function") continue;
+                    const args = parseJson(call.function.arguments || "{}");
+                    parts.push({ functionCall: { name: call.function.name, args: args as Record<string, unknown> } });
+                }
+                if (parts.length > 0) contents.push({ role: "model", parts });
+                break;
+            }
+            case "tool":
+                contents.push({
+                    role: "user",
+                    parts: [
+                        {
+                            functionResponse: {
+                                name: names.get(message.tool_call_id) ?? "tool",
+                                response: { result: parseJson(messageText(message.content)) },
+                            },
+                        },
+                    ],
+                });
+                break;
+        }
+    }
+
+    // Sent as parametersJsonSchema: the `parameters` field takes only an OpenAPI
+    // subset and rejects the tools' additionalProperties and property-less objects
+    const functionDeclarations = tools.flatMap((tool) => {
+        if (tool.type !== "function") return [];
+        const { name, description, parameters } = tool.function;
+        return [{ name, description, parametersJsonSchema: parameters }];
+    });
+
+    return {
+        systemInstruction: system.length > 0 ? { parts: [{ text: system.join("\n\n") }] } : undefined,
+        contents,
+        tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+        generationConfig: { temperature: settings.temperature, maxOutputTokens: settings.maxTokens },
+    };
+}
+
+/**
+ * Provider for Google Gemini's generateContent API. Gemini does not give tool
+ * calls ids, so they are numbered across the provider's responses.
+ */
+export function createGeminiProvider(config: GeminiConfig): LLMProvider {
+    const baseURL = config.baseURL || DEFAULT_BASE_URL;
+    let callCount = 0;
+    const nextCallId = () => `gemini-call-${callCount++}`;
+
+    const post = async (method: string, request: LLMCompletionRequest): Promise<Response> => {
+        if (!MODEL_PATTERN.test(config.model)) {
+            throw new Error(`Invalid Gemini model name: ${JSON.stringify(config.model)}`);
+        }
+        const response = await fetch(`${baseURL}/models/${config.model}:${method}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "x-goog-api-key": config.apiKey },
+            body: JSON.stringify(toGeminiBody(request, config)),
+            signal: request.signal,
+        });
+        if (!response.ok) {
+            throw new Error(`Gemini API error ${response.status}: ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        name: "gemini",
+        model: config.model,
+        capabilities: { tools: true },
+
+        isConfigured() {
+            return config.apiKey !== "";
+        },
+
+        async complete(request): Promise<LLMCompletion> {
+            const data: GeminiResponse = await (await post("generateContent", request)).json();
+            const parts = data.candidates?.[0]?.content?.parts ?? [];
+            const text = parts.map((part) => part.text ?? "").join("");
+            return {
+                content: text || null,
+                toolCalls: parts
+                    .filter((part) => part.functionCall)
+                    .map((part) => ({
+                        id: nextCallId(),
+                        function: {
+                            name: part.functionCall!.name,
+                            arguments: JSON.stringify(part.functionCall!.args ?? {}),
+                        },
+                    })),
+                totalTokens: data.usageMetadata?.totalTokenCount ?? 0,
+            };
+        },
+
+        async *stream(request): AsyncIterable<LLMStreamChunk> {
+            const response = await post("streamGenerateContent?alt=sse", request);
+            if (!response.body) return;
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
+            let toolIndex = 0;
+            let totalTokens = 0;
+
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                // Each event is a `data:` line holding a partial GenerateContentResponse
+                const lines = buffer.split("\n");
+                buffer = lines.pop() ?? "";
+                for (const line of lines) {
+                    if (!line.startsWith("data:")) continue;
+                    const data: GeminiResponse = JSON.parse(line.slice(5));
+                    // Usage is cumulative; the last value is the total
+                    totalTokens = data.usageMetadata?.totalTokenCount ?? totalTokens;
+
+                    for (const part of data.candidates?.[0]?.content?.parts ?? []) {
+                        if (part.text) yield { type: "text", delta: part.text };
+                        // Function calls arrive whole
+                        if (part.functionCall) {
+                            const index = toolIndex++;
+                            yield {
+                                type: "tool_call",
+                                index,
+                                id: nextCallId(),
+                                name: part.functionCall.name,
+                                arguments: JSON.stringify(part.functionCall.args ?? {}),
+                            };
+                        }
+                    }
+                }
+            }
+
+            yield { type: "usage", totalTokens };
+        },
+    };
+}
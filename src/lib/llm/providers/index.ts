@@ -0,0 +1,118 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { withRecording } from "./recording";
+import { withTextToolFallback } from "./textTools";
+import { LLMCapabilities, LLMProvider, LLMSettings } from "./types";
+
+export type {
+    LLMCapabilities,
+    LLMCompletion,
+    LLMCompletionRequest,
+    LLMMessage,
+    LLMProvider,
+    LLMSettings,
+    LLMStreamChunk,
+    LLMTool,
+    LLMToolCall,
+} from "./types";
+export type { FixtureToolCall, FixtureTurn, LLMFixture } from "./fixtures";
+
+export const LLM_PROVIDER_NAMES = ["deepseek", "openai", "local", "gemini", "mock"] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * What each provider supports. Local servers only call tools natively for
+ * some models, so it is opt-in there (LOCAL_LLM_TOOLS=true).
+ */
+export const LLM_CAPABILITIES: Record<LLMProviderName, LLMCapabilities> = {
+    deepseek: { tools: true },
+    openai: { tools: true },
+    local: { tools: process.env.LOCAL_LLM_TOOLS === "true" },
+    gemini: { tools: true },
+    mock: { tools: true },
+};
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+    deepseek: "deepseek-chat",
+    openai: "gpt-4o-mini",
+    local: "llama3.1",
+    gemini: "gemini-1.5-flash",
+    mock: "fixtures",
+};
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function createProvider(name: LLMProviderName, settings: LLMSettings): LLMProvider {
+    switch (name) {
+        case "deepseek":
+            return createOpenAICompatibleProvider({
+                name,
+                baseURL: "https://api.deepseek.com",
+                apiKey: process.env.DEEPSEEK_API_KEY || "",
+                requiresApiKey: true,
+                capabilities: LLM_CAPABILITIES.deepseek,
+                ...settings,
+            });
+        case "openai":
+            return createOpenAICompatibleProvider({
+                name,
+                baseURL: process.env.OPENAI_BASE_URL || undefined,
+                apiKey: process.env.OPENAI_API_KEY || "",
+                requiresApiKey: true,
+                capabilities: LLM_CAPABILITIES.openai,
+                ...settings,
+            });
+        case "local":
+            return createOpenAICompatibleProvider({
+                name,
+                // Ollama's OpenAI-compatible endpoint; llama.cpp serves on :8080/v1
+                baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+                apiKey: process.env.LOCAL_LLM_API_KEY || "",
+                requiresApiKey: false,
+                capabilities: LLM_CAPABILITIES.local,
+                ...settings,
+            });
+        case "gemini":
+            return createGeminiProvider({
+                apiKey: process.env.GEMINI_API_KEY || "",
+                baseURL: process.env.GEMINI_BASE_URL || undefined,
+                ...settings,
+            });
+        case "mock":
+            return createMockProvider();
+    }
+}
+
+/**
+ * Resolve a provider by name, falling back to LLM_PROVIDER and then
+ * DeepSeek. The model and temperature can be overridden per request.
+ * With LLM_RECORD_DIR set, responses are saved there as mock fixtures.
+ * Returns null for unknown names.
+ */
+export function getLLMProvider(
+    name?: string | null,
+    overrides: Partial<Pick<LLMSettings, "model" | "temperature">> = {}
+): LLMProvider | null {
+    const key = (name || process.env.LLM_PROVIDER || "deepseek") as LLMProviderName;
+    if (!LLM_PROVIDER_NAMES.includes(key)) return null;
+
+    const envModel = process.env[`${key.toUpperCase()}_MODEL`];
+    const settings: LLMSettings = {
+        model: overrides.model || envModel || DEFAULT_MODELS[key],
+        temperature: overrides.temperature ?? numberFromEnv(process.env.LLM_TEMPERATURE, 0.7),
+        maxTokens: numberFromEnv(process.env.LLM_MAX_TOKENS, 2000),
+    };
+
+    const provider = withTextToolFallback(createProvider(key, settings));
+    const recordDir = process.env.LLM_RECORD_DIR;
+    return recordDir && key !== "mock" ? withRecording(provider, recordDir) : provider;
+}
+
+export function listLLMProviders(): string[] {
+    return [...LLM_PROVIDER_NAMES];
+}
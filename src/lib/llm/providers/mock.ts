@@ -0,0 +1,118 @@
+import { LLM_FIXTURES_DIR, FixtureTurn, findFixture, latestQuestion, loadFixtures, turnIndex } from "./fixtures";
+import { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMStreamChunk, LLMToolCall } from "./types";
+
+export interface MockProviderConfig {
+    fixturesDir?: string;
+}
+
+// Reply when no fixture matches and there is no fallback fixture
+const NO_FIXTURE_TURN: FixtureTurn = {
+    content: "The mock model has no scripted reply for this question. Add a fixture to data/llm-fixtures.",
+};
+
+// Tool call arguments stream in this many fragments, like a real model's deltas
+const ARGUMENT_FRAGMENTS = 4;
+
+// Resolves early on abort; the listener is removed either way so long replies don't pile them up
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+// Split text into word-sized chunks, keeping the whitespace
+function wordChunks(text: string): string[] {
+    return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function toolCallsOf(turn: FixtureTurn, callPrefix: string): LLMToolCall[] {
+    return (turn.toolCalls ?? []).map((call, index) => ({
+        id: `${callPrefix}-${index}`,
+        function: {
+            name: call.name,
+            arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {}),
+        },
+    }));
+}
+
+/**
+ * Offline provider that replays scripted fixtures (see fixtures.ts), so the
+ * chat-to-chart flow can be built and tested without a network or API key.
+ * Each model call in the tool loop plays the next turn of the fixture that
+ * matches the latest question; once the script runs out it replies empty.
+ */
+export function createMockProvider(config: MockProviderConfig = {}): LLMProvider {
+    const fixturesDir = config.fixturesDir || LLM_FIXTURES_DIR;
+    let responseCount = 0;
+
+    // Fixtures are re-read per request so edits apply without a restart
+    const nextTurn = async ({ messages }: LLMCompletionRequest) => {
+        const question = latestQuestion(messages);
+        const fixture = findFixture(await loadFixtures(fixturesDir), question);
+        const index = turnIndex(messages);
+        const turn = fixture ? (fixture.turns[index] ?? {}) : index === 0 ? NO_FIXTURE_TURN : {};
+        console.log("[Mock LLM]", { fixture: fixture?.name ?? null, turn: index });
+        return { turn, callPrefix: `mock-call-${responseCount++}` };
+    };
+
+    const estimateTokens = (request: LLMCompletionRequest, turn: FixtureTurn) =>
+        Math.ceil((JSON.stringify(request.messages).length + JSON.stringify(turn).length) / 4);
+
+    return {
+        name: "mock",
+        model: "fixtures",
+        capabilities: { tools: true },
+
+        isConfigured() {
+            return true;
+        },
+
+        async complete(request): Promise<LLMCompletion> {
+            const { turn, callPrefix } = await nextTurn(request);
+            if (turn.error) throw new Error(turn.error.message);
+            return {
+                content: turn.content ?? null,
+                toolCalls: toolCallsOf(turn, callPrefix),
+                totalTokens: estimateTokens(request, turn),
+            };
+        },
+
+        async *stream(request): AsyncIterable<LLMStreamChunk> {
+            const { turn, callPrefix } = await nextTurn(request);
+            const chunks = turn.chunks ?? wordChunks(turn.content ?? "");
+
+            for (const [index, delta] of chunks.entries()) {
+                if (turn.error && index === (turn.error.afterChunks ?? 0)) throw new Error(turn.error.message);
+                if (turn.delayMs) await sleep(turn.delayMs, request.signal);
+                if (request.signal?.aborted) return;
+                yield { type: "text", delta };
+            }
+            if (turn.error) throw new Error(turn.error.message);
+
+            for (const [index, call] of toolCallsOf(turn, callPrefix).entries()) {
+                const args = call.function.arguments;
+                const size = Math.ceil(args.length / ARGUMENT_FRAGMENTS) || 1;
+                for (let start = 0; start < Math.max(args.length, 1); start += size) {
+                    if (turn.delayMs) await sleep(turn.delayMs, request.signal);
+                    if (request.signal?.aborted) return;
+                    yield {
+                        type: "tool_call",
+                        index,
+                        ...(start === 0 ? { id: call.id, name: call.function.name } : {}),
+                        arguments: args.slice(start, start + size),
+                    };
+                }
+            }
+
+            yield { type: "usage", totalTokens: estimateTokens(request, turn) };
+        },
+    };
+}
@@ -0,0 +1,78 @@
+import OpenAI from "openai";
+import { LLMCapabilities, LLMCompletionRequest, LLMProvider, LLMSettings } from "./types";
+
+export interface OpenAICompatibleConfig extends LLMSettings {
+    name: string;
+    baseURL?: string;
+    apiKey: string;
+    // Local servers accept any key
+    requiresApiKey: boolean;
+    capabilities: LLMCapabilities;
+}
+
+/**
+ * Provider for APIs speaking the OpenAI chat completions protocol: OpenAI
+ * itself, DeepSeek, and local servers such as Ollama or llama.cpp
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+    const client = new OpenAI({
+        // The SDK refuses an empty key, even for servers that ignore it
+        apiKey: config.apiKey || "not-needed",
+        baseURL: config.baseURL,
+    });
+
+    const params = ({ messages, tools }: LLMCompletionRequest) => ({
+        model: config.model,
+        messages,
+        tools: tools.length > 0 ? tools : undefined,
+        tool_choice: tools.length > 0 ? ("auto" as const) : undefined,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+    });
+
+    return {
+        name: config.name,
+        model: config.model,
+        capabilities: config.capabilities,
+
+        isConfigured() {
+            return !config.requiresApiKey || config.apiKey !== "";
+        },
+
+        async complete(request) {
+            const response = await client.chat.completions.create(params(request), { signal: request.signal });
+            const message = response.choices[0].message;
+            return {
+                content: message.content,
+                toolCalls: (message.tool_calls ?? [])
+                    .filter((call) => call.type === "function")
+                    .map((call) => ({ id: call.id, function: call.function })),
+                totalTokens: response.usage?.total_tokens ?? 0,
+            };
+        },
+
+        async *stream(request) {
+            const stream = await client.chat.completions.create(
+                { ...params(request), stream: true, stream_options: { include_usage: true } },
+                { signal: request.signal }
+            );
+
+            for await (const chunk of stream) {
+                if (chunk.usage) yield { type: "usage", totalTokens: chunk.usage.total_tokens };
+                const delta = chunk.choices[0]?.delta;
+                if (!delta) continue;
+
+                if (delta.content) yield { type: "text", delta: delta.content };
+                for (const toolDelta of delta.tool_calls ?? []) {
+                    yield {
+                        type: "tool_call",
+                        index: toolDelta.index,
+                        id: toolDelta.id,
+                        name: toolDelta.function?.name,
+                        arguments: toolDelta.function?.arguments,
+                    };
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,79 @@
+import { FixtureToolCall, FixtureTurn, latestQuestion, recordTurn, turnIndex } from "./fixtures";
+import { LLMCompletionRequest, LLMProvider, LLMStreamChunk } from "./types";
+
+function fixtureToolCall(name: string, args: string): FixtureToolCall {
+    try {
+        return { name, arguments: JSON.parse(args || "{}") };
+    } catch {
+        return { name, arguments: args };
+    }
+}
+
+/**
+ * Wrap a real provider so every response is saved as a fixture turn in
+ * `dir`, ready to be replayed by the mock provider. Streamed responses keep
+ * their original chunking. Failed requests are recorded as error turns.
+ */
+export function withRecording(provider: LLMProvider, dir: string): LLMProvider {
+    // Writes are chained so a turn never reads the file before the previous turn is saved
+    let writes = Promise.resolve();
+    const save = (request: LLMCompletionRequest, turn: FixtureTurn) => {
+        const question = latestQuestion(request.messages);
+        const index = turnIndex(request.messages);
+        writes = writes
+            .then(() => recordTurn(dir, question, index, turn))
+            .catch((error) => console.error("[LLM Recorder] Failed to save fixture:", error));
+    };
+
+    return {
+        name: provider.name,
+        model: provider.model,
+        capabilities: provider.capabilities,
+
+        isConfigured() {
+            return provider.isConfigured();
+        },
+
+        async complete(request) {
+            try {
+                const completion = await provider.complete(request);
+                save(request, {
+                    content: completion.content ?? undefined,
+                    toolCalls: completion.toolCalls.map((call) =>
+                        fixtureToolCall(call.function.name, call.function.arguments)
+                    ),
+                });
+                return completion;
+            } catch (error) {
+                save(request, { error: { message: String(error) } });
+                throw error;
+            }
+        },
+
+        async *stream(request): AsyncIterable<LLMStreamChunk> {
+            const chunks: string[] = [];
+            const calls: { name: string; arguments: string }[] = [];
+
+            try {
+                for await (const chunk of provider.stream(request)) {
+                    if (chunk.type === "text") chunks.push(chunk.delta);
+                    if (chunk.type === "tool_call") {
+                        const call = (calls[chunk.index] ??= { name: "", arguments: "" });
+                        if (chunk.name) call.name = chunk.name;
+                        call.arguments += chunk.arguments ?? "";
+                    }
+                    yield chunk;
+                }
+            } catch (error) {
+                save(request, { chunks, error: { message: String(error), afterChunks: chunks.length } });
+                throw error;
+            }
+
+            save(request, {
+                content: chunks.join("") || undefined,
+                chunks: chunks.length > 0 ? chunks : undefined,
+                toolCalls: calls.filter(Boolean).map((call) => fixtureToolCall(call.name, call.arguments)),
+            });
+        },
+    };
+}
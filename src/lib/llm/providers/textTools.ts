@@ -0,0 +1,190 @@
+import {
+    LLMCompletion,
+    LLMCompletionRequest,
+    LLMMessage,
+    LLMProvider,
+    LLMStreamChunk,
+    LLMTool,
+    LLMToolCall,
+    messageText,
+    toolCallNames,
+} from "./types";
+
+// The tool that ends a turn; bare {"actions": [...]} JSON is read as a call to it
+const FINAL_TOOL = "emit_chart_actions";
+
+const FENCE = "```";
+
+/**
+ * Describe the tools in the prompt, for models that cannot call them natively
+ */
+function toolInstructions(tools: LLMTool[]): string {
+    const descriptions = tools.flatMap((tool) => {
+        if (tool.type !== "function") return [];
+        const schema = JSON.stringify(tool.function.parameters ?? {});
+        return [`- ${tool.function.name}: ${tool.function.description ?? ""}\n  arguments schema: ${schema}`];
+    });
+
+    return `## Calling Tools
+You cannot call functions directly. To call a tool, write a fenced JSON block:
+${FENCE}json
+{"tool": "<tool name>", "arguments": { ... }}
+${FENCE}
+Write one block per call. Tool results come back in the next message. Available tools:
+${descriptions.join("\n")}`;
+}
+
+/**
+ * Rewrite tool calls and results as plain text, since the model never saw
+ * them as structured messages
+ */
+function toTextMessages(messages: LLMMessage[], tools: LLMTool[]): LLMMessage[] {
+    const names = toolCallNames(messages);
+    const converted: LLMMessage[] = messages.map((message): LLMMessage => {
+        if (message.role === "assistant" && message.tool_calls?.length) {
+            const calls = message.tool_calls.flatMap((call) => {
+                if (call.type !== "function") return [];
+                const json = `{"tool": "${call.function.name}", "arguments": ${call.function.arguments || "{}"}}`;
+                return [`${FENCE}json\n${json}\n${FENCE}`];
+            });
+            const content = [messageText(message.content ?? null), ...calls].filter(Boolean).join("\n");
+            return { role: "assistant", content };
+        }
+        if (message.role === "tool") {
+            const name = names.get(message.tool_call_id) ?? "tool";
+            return { role: "user", content: `Result of ${name}:\n${messageText(message.content)}` };
+        }
+        return message;
+    });
+
+    return tools.length > 0 ? [{ role: "system", content: toolInstructions(tools) }, ...converted] : converted;
+}
+
+/**
+ * Read a fenced block as a tool call: {"tool", "arguments"}, or a bare
+ * {"actions": [...]} object meaning emit_chart_actions. Null for other code.
+ */
+function parseToolBlock(block: string, index: number): LLMToolCall | null {
+    const body = block.replace(/^json\s*/i, "").trim();
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== "object") return null;
+
+    const id = `text-call-${index}`;
+    const object = parsed as Record<string, unknown>;
+    if (typeof object.tool === "string") {
+        return { id, function: { name: object.tool, arguments: JSON.stringify(object.arguments ?? {}) } };
+    }
+    if (Array.isArray(object.actions)) {
+        return { id, function: { name: FINAL_TOOL, arguments: JSON.stringify(object) } };
+    }
+    return null;
+}
+
+/**
+ * Split model text into prose and tool calls found in fenced JSON blocks
+ */
+function extractToolCalls(text: string): { content: string; toolCalls: LLMToolCall[] } {
+    const toolCalls: LLMToolCall[] = [];
+    const content = text.replace(/```([\s\S]*?)```/g, (block, inner: string) => {
+        const call = parseToolBlock(inner, toolCalls.length);
+        if (!call) return block;
+        toolCalls.push(call);
+        return "";
+    });
+    return { content: content.trim(), toolCalls };
+}
+
+/**
+ * Wrap a provider whose models lack native tool calling. Tools are described
+ * in a system message, earlier calls and results are replayed as text, and
+ * calls are parsed back out of fenced JSON blocks in the reply. Providers
+ * that support tools are returned unchanged.
+ */
+export function withTextToolFallback(provider: LLMProvider): LLMProvider {
+    if (provider.capabilities.tools) return provider;
+
+    const textRequest = (request: LLMCompletionRequest): LLMCompletionRequest => ({
+        ...request,
+        messages: toTextMessages(request.messages, request.tools),
+        tools: [],
+    });
+
+    return {
+        name: provider.name,
+        model: provider.model,
+        capabilities: provider.capabilities,
+
+        isConfigured() {
+            return provider.isConfigured();
+        },
+
+        async complete(request): Promise<LLMCompletion> {
+            const completion = await provider.complete(textRequest(request));
+            const { content, toolCalls } = extractToolCalls(completion.content ?? "");
+            return { content: content || null, toolCalls, totalTokens: completion.totalTokens };
+        },
+
+        // Prose streams through; text from an opening fence on is held back
+        // until the block closes, then either parsed as a tool call or
+        // released as ordinary text
+        async *stream(request): AsyncIterable<LLMStreamChunk> {
+            let pending = "";
+            let inBlock = false;
+            const toolCalls: LLMToolCall[] = [];
+
+            for await (const chunk of provider.stream(textRequest(request))) {
+                if (chunk.type !== "text") {
+                    if (chunk.type === "usage") yield chunk;
+                    continue;
+                }
+                pending += chunk.delta;
+
+                for (;;) {
+                    const fence = pending.indexOf(FENCE, inBlock ? FENCE.length : 0);
+                    if (!inBlock) {
+                        if (fence === -1) {
+                            // Keep trailing backticks, which may start a fence
+                            const keep = pending.length - pending.replace(/`+$/, "").length;
+                            const text = pending.slice(0, pending.length - keep);
+                            if (text) yield { type: "text", delta: text };
+                            pending = pending.slice(pending.length - keep);
+                            break;
+                        }
+                        if (fence > 0) yield { type: "text", delta: pending.slice(0, fence) };
+                        pending = pending.slice(fence);
+                        inBlock = true;
+                        continue;
+                    }
+
+                    if (fence === -1) break;
+                    const block = pending.slice(0, fence + FENCE.length);
+                    pending = pending.slice(fence + FENCE.length);
+                    inBlock = false;
+
+                    const call = parseToolBlock(block.slice(FENCE.length, -FENCE.length), toolCalls.length);
+                    if (call) toolCalls.push(call);
+                    else yield { type: "text", delta: block };
+                }
+            }
+
+            // An unterminated block may still be a complete call
+            const trailing = inBlock ? parseToolBlock(pending.slice(FENCE.length), toolCalls.length) : null;
+            if (trailing) toolCalls.push(trailing);
+            else if (pending) yield { type: "text", delta: pending };
+            for (const [index, call] of toolCalls.entries()) {
+                yield {
+                    type: "tool_call",
+                    index,
+                    id: call.id,
+                    name: call.function.name,
+                    arguments: call.function.arguments,
+                };
+            }
+        },
+    };
+}
@@ -0,0 +1,80 @@
+import type OpenAI from "openai";
+
+// Messages and tool definitions use the OpenAI chat format; adapters for
+// other APIs translate to and from it
+export type LLMMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type LLMTool = OpenAI.Chat.Completions.ChatCompletionTool;
+
+export interface LLMToolCall {
+    id: string;
+    function: { name: string; arguments: string };
+}
+
+export interface LLMCompletionRequest {
+    messages: LLMMessage[];
+    // Empty when the model must answer in text
+    tools: LLMTool[];
+    signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+    content: string | null;
+    toolCalls: LLMToolCall[];
+    totalTokens: number;
+}
+
+// Streamed pieces of a completion. Tool call fragments are keyed by index;
+// id and name arrive with the first fragment of each call.
+export type LLMStreamChunk =
+    | { type: "text"; delta: string }
+    | { type: "tool_call"; index: number; id?: string; name?: string; arguments?: string }
+    | { type: "usage"; totalTokens: number };
+
+export interface LLMCapabilities {
+    // Native function/tool calling; without it tools are described in the
+    // prompt and calls are parsed out of the text (see withTextToolFallback)
+    tools: boolean;
+}
+
+// Generation settings, from the environment or overridden per request
+export interface LLMSettings {
+    model: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+/**
+ * A chat model backend. The chat routes only talk to this interface, so
+ * hosted APIs and local servers can be swapped per request or environment.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    readonly model: string;
+    readonly capabilities: LLMCapabilities;
+    // False when a required API key is missing
+    isConfigured(): boolean;
+    complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+    stream(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+/**
+ * Tool name for each tool call id in a conversation, for APIs and prompts
+ * that refer to tool results by name
+ */
+export function toolCallNames(messages: LLMMessage[]): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const message of messages) {
+        if (message.role !== "assistant") continue;
+        for (const call of message.tool_calls ?? []) {
+            if (call.type === "function") names.set(call.id, call.function.name);
+        }
+    }
+    return names;
+}
+
+// Text of a message whose content may be a string or a list of parts
+export function messageText(content: LLMMessage["content"]): string {
+    if (!content) return "";
+    if (typeof content === "string") return content;
+    return content.map((part) => ("text" in part ? part.text : "")).join("");
+}
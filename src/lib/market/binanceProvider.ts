@@ -0,0 +1,173 @@
+import { Candle, Timeframe } from "@/lib/schema/chartActions";
+import { CandleQuery, MarketDataProvider, StreamQuery } from "./types";
+
+// Binance API endpoints (with fallbacks)
+const BINANCE_APIS = [
+    "https://api.binance.com/api/v3",
+    "https://api1.binance.com/api/v3",
+    "https://api2.binance.com/api/v3",
+    "https://api3.binance.com/api/v3",
+];
+
+// Timeframe mapping to Binance interval format (native intervals only;
+// anything else is resampled by withResampling)
+const timeframeToInterval: Record<string, string> = {
+    "1m": "1m",
+    "5m": "5m",
+    "15m": "15m",
+    "30m": "30m",
+    "1h": "1h",
+    "4h": "4h",
+    "1d": "1d",
+    "1w": "1w",
+    "1M": "1M",
+};
+
+/**
+ * Fetch a Binance REST path, trying each endpoint until one works
+ */
+async function fetchWithFallback(path: string): Promise<unknown> {
+    let lastError: Error | null = null;
+
+    for (const apiBase of BINANCE_APIS) {
+        try {
+            console.log(`[Market Data] Fetching from: ${apiBase}`);
+
+            const response = await fetch(`${apiBase}${path}`, {
+                headers: {
+                    "User-Agent": "Tradecraft/1.0",
+                },
+                // Don't use Next.js caching on Vercel to avoid issues
+                cache: "no-store",
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                console.error(`[Market Data] ${apiBase} failed: ${response.status} - ${errorText}`);
+                lastError = new Error(`Binance API error: ${response.status}`);
+                continue;
+            }
+
+            return await response.json();
+        } catch (error) {
+            console.error(`[Market Data] ${apiBase} exception:`, error);
+            lastError = error as Error;
+            continue;
+        }
+    }
+
+    console.error("[Market Data] All Binance endpoints failed:", lastError?.message);
+    throw lastError ?? new Error("Failed to fetch market data from all endpoints");
+}
+
+// Binance caps a single klines request at this many candles
+const MAX_PAGE_SIZE = 1000;
+
+// How often the live stream polls for the latest kline
+const STREAM_POLL_MS = 2000;
+
+/**
+ * Fetch a single page of klines. Times are in milliseconds, as Binance expects.
+ */
+async function fetchKlinesPage(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    endTime?: number
+): Promise<Candle[]> {
+    let path = `/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
+    if (startTime !== undefined) path += `&startTime=${startTime}`;
+    if (endTime !== undefined) path += `&endTime=${endTime}`;
+
+    const data = (await fetchWithFallback(path)) as (string | number)[][];
+
+    // Transform Binance klines to our Candle format
+    return data.map((kline) => ({
+        time: Math.floor(Number(kline[0]) / 1000),
+        open: parseFloat(kline[1] as string),
+        high: parseFloat(kline[2] as string),
+        low: parseFloat(kline[3] as string),
+        close: parseFloat(kline[4] as string),
+        volume: parseFloat(kline[5] as string),
+    }));
+}
+
+export const binanceProvider: MarketDataProvider = {
+    name: "binance",
+
+    supportedTimeframes() {
+        return Object.keys(timeframeToInterval) as Timeframe[];
+    },
+
+    async listSymbols() {
+        const data = (await fetchWithFallback("/exchangeInfo?permissions=SPOT")) as {
+            symbols: { symbol: string; status: string; quoteAsset: string }[];
+        };
+        return data.symbols
+            .filter((s) => s.status === "TRADING" && s.quoteAsset === "USDT")
+            .map((s) => s.symbol);
+    },
+
+    async getCandles({ symbol, timeframe, limit, from, to }: CandleQuery) {
+        const interval = timeframeToInterval[timeframe];
+        const endTime = to !== undefined ? to * 1000 : undefined;
+        let candles: Candle[] = [];
+
+        if (from !== undefined) {
+            // Page forward from the start of the range
+            let startTime = from * 1000;
+            while (candles.length < limit) {
+                const pageSize = Math.min(MAX_PAGE_SIZE, limit - candles.length);
+                const page = await fetchKlinesPage(symbol, interval, pageSize, startTime, endTime);
+                candles = candles.concat(page);
+                if (page.length < pageSize) break;
+                startTime = page[page.length - 1].time * 1000 + 1;
+            }
+        } else {
+            // Page backward from the end of the range (or from now)
+            let pageEnd = endTime;
+            while (candles.length < limit) {
+                const pageSize = Math.min(MAX_PAGE_SIZE, limit - candles.length);
+                const page = await fetchKlinesPage(symbol, interval, pageSize, undefined, pageEnd);
+                candles = page.concat(candles);
+                if (page.length < pageSize) break;
+                pageEnd = page[0].time * 1000 - 1;
+            }
+        }
+
+        console.log(`[Market Data] Success: ${candles.length} candles from Binance`);
+        return candles;
+    },
+
+    streamCandles({ symbol, timeframe }: StreamQuery, onUpdate, onError) {
+        const interval = timeframeToInterval[timeframe];
+        let lastTime: number | null = null;
+        let stopped = false;
+
+        // Poll the two most recent klines: when a new bar opens, the
+        // previous one is reported once more as closed
+        const poll = async () => {
+            try {
+                const [previous, current] = await fetchKlinesPage(symbol, interval, 2);
+                if (stopped || !current) return;
+
+                if (lastTime !== null && current.time > lastTime && previous) {
+                    onUpdate({ candle: previous, closed: true });
+                }
+                lastTime = current.time;
+                onUpdate({ candle: current, closed: false });
+            } catch (error) {
+                if (!stopped) onError(error as Error);
+            }
+        };
+
+        poll();
+        const timer = setInterval(poll, STREAM_POLL_MS);
+
+        return () => {
+            stopped = true;
+            clearInterval(timer);
+        };
+    },
+};
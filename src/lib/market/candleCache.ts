@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import { Candle } from "@/lib/schema/chartActions";
+import { timeframeSeconds } from "@/lib/timeframes";
+import { CandleQuery, MarketDataProvider } from "./types";
+
+// Maximum number of symbol/timeframe/range entries kept in memory
+const MAX_ENTRIES = 200;
+
+// Seconds a cached response stays fresh: 1/120th of a bar, between 5s and 5min,
+// so shorter bars (which change more often) expire sooner
+const MIN_TTL = 5;
+const MAX_TTL = 300;
+
+// Stale entries are served for this multiple of the TTL while a refresh runs
+const STALE_MULTIPLIER = 4;
+
+interface CacheEntry {
+    candles: Candle[];
+    etag: string;
+    fetchedAt: number;
+}
+
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export interface CachedCandles {
+    candles: Candle[];
+    etag: string;
+    status: CacheStatus;
+    maxAge: number;
+    staleWhileRevalidate: number;
+}
+
+// Map preserves insertion order, so re-inserting on read gives LRU eviction
+const entries = new Map<string, CacheEntry>();
+// In-flight upstream fetches, shared by concurrent identical requests
+const pending = new Map<string, Promise<CacheEntry>>();
+
+function cacheKey(provider: MarketDataProvider, query: CandleQuery): string {
+    return [provider.name, query.symbol, query.timeframe, query.limit, query.from ?? "", query.to ?? ""].join(":");
+}
+
+function touch(key: string, entry: CacheEntry) {
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > MAX_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+    }
+}
+
+/**
+ * Fetch from the provider once per key, however many callers are waiting
+ */
+function refresh(key: string, provider: MarketDataProvider, query: CandleQuery): Promise<CacheEntry> {
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = provider
+        .getCandles(query)
+        .then((candles) => {
+            const etag = `"${createHash("sha1").update(JSON.stringify(candles)).digest("hex")}"`;
+            const entry: CacheEntry = { candles, etag, fetchedAt: Date.now() };
+            touch(key, entry);
+            return entry;
+        })
+        .finally(() => {
+            pending.delete(key);
+        });
+
+    pending.set(key, request);
+    return request;
+}
+
+/**
+ * Get candles through the cache. Fresh entries are returned directly,
+ * stale ones are returned while a background refresh runs, and expired
+ * or missing ones wait for the upstream fetch.
+ */
+export async function getCachedCandles(
+    provider: MarketDataProvider,
+    query: CandleQuery
+): Promise<CachedCandles> {
+    const key = cacheKey(provider, query);
+    const maxAge = Math.min(MAX_TTL, Math.max(MIN_TTL, Math.round(timeframeSeconds(query.timeframe) / 120)));
+    const staleWhileRevalidate = maxAge * STALE_MULTIPLIER;
+
+    const entry = entries.get(key);
+    if (entry) {
+        const age = (Date.now() - entry.fetchedAt) / 1000;
+
+        if (age < maxAge) {
+            touch(key, entry);
+            return { ...entry, status: "HIT", maxAge, staleWhileRevalidate };
+        }
+
+        if (age < maxAge + staleWhileRevalidate) {
+            touch(key, entry);
+            refresh(key, provider, query).catch((error) => {
+                console.error("[Market Data] Background refresh failed:", error);
+            });
+            return { ...entry, status: "STALE", maxAge, staleWhileRevalidate };
+        }
+    }
+
+    const fresh = await refresh(key, provider, query);
+    return { ...fresh, status: "MISS", maxAge, staleWhileRevalidate };
+}
@@ -0,0 +1,66 @@
+import { CandleUpdate, CandleUpdateListener, MarketDataProvider, StreamQuery } from "./types";
+
+interface Subscriber {
+    onUpdate: CandleUpdateListener;
+    onError: (error: Error) => void;
+}
+
+interface SharedStream {
+    subscribers: Set<Subscriber>;
+    lastUpdate: CandleUpdate | null;
+    stop: () => void;
+}
+
+// One upstream subscription per provider/symbol/timeframe, shared by all clients
+const streams = new Map<string, SharedStream>();
+
+function streamKey(provider: MarketDataProvider, query: StreamQuery): string {
+    return [provider.name, query.symbol, query.timeframe, query.from ?? ""].join(":");
+}
+
+/**
+ * Subscribe to live candle updates. Identical subscriptions share one
+ * upstream source, which is stopped when the last subscriber leaves.
+ * New subscribers immediately receive the latest known update.
+ */
+export function subscribeCandleUpdates(
+    provider: MarketDataProvider,
+    query: StreamQuery,
+    onUpdate: CandleUpdateListener,
+    onError: (error: Error) => void
+): () => void {
+    const key = streamKey(provider, query);
+    const subscriber: Subscriber = { onUpdate, onError };
+
+    let stream = streams.get(key);
+    if (!stream) {
+        const shared: SharedStream = { subscribers: new Set(), lastUpdate: null, stop: () => {} };
+        shared.stop = provider.streamCandles(
+            query,
+            (update) => {
+                shared.lastUpdate = update;
+                shared.subscribers.forEach((s) => s.onUpdate(update));
+            },
+            (error) => {
+                console.error(`[Market Data] Stream ${key} error:`, error);
+                shared.subscribers.forEach((s) => s.onError(error));
+            }
+        );
+        streams.set(key, shared);
+        stream = shared;
+    } else if (stream.lastUpdate) {
+        onUpdate(stream.lastUpdate);
+    }
+
+    stream.subscribers.add(subscriber);
+
+    return () => {
+        const current = streams.get(key);
+        if (!current) return;
+        current.subscribers.delete(subscriber);
+        if (current.subscribers.size === 0) {
+            current.stop();
+            streams.delete(key);
+        }
+    };
+}
@@ -0,0 +1,25 @@
+import { binanceProvider } from "./binanceProvider";
+import { localProvider } from "./localProvider";
+import { withResampling } from "./resampledProvider";
+import { MarketDataProvider } from "./types";
+
+export type { CandleQuery, MarketDataProvider } from "./types";
+
+// Every provider is wrapped so non-native timeframes are resampled
+const providers: Record<string, MarketDataProvider> = {
+    [binanceProvider.name]: withResampling(binanceProvider),
+    [localProvider.name]: withResampling(localProvider),
+};
+
+/**
+ * Resolve a provider by name, falling back to MARKET_DATA_PROVIDER and
+ * then Binance. Returns null for unknown names.
+ */
+export function getMarketDataProvider(name?: string | null): MarketDataProvider | null {
+    const key = name || process.env.MARKET_DATA_PROVIDER || binanceProvider.name;
+    return providers[key] ?? null;
+}
+
+export function listMarketDataProviders(): string[] {
+    return Object.keys(providers);
+}
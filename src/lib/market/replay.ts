@@ -0,0 +1,119 @@
+import { Candle } from "@/lib/schema/chartActions";
+import { CandleUpdateListener } from "./types";
+
+// A failed load is retried after a delay that doubles each time; after this
+// many failures in a row the replay stops and reports the last error
+const MAX_LOAD_FAILURES = 5;
+const RETRY_BASE_MS = 1000;
+
+export interface ReplayOptions {
+    // Delay between emitted ticks
+    tickIntervalMs: number;
+    // Ticks used to form each bar
+    ticksPerBar: number;
+}
+
+/**
+ * Price along the open -> first extreme -> second extreme -> close path
+ * a bar takes, at progress t in [0, 1]. Bullish bars dip first, bearish
+ * bars rally first.
+ */
+function pathPrice(bar: Candle, t: number): number {
+    const bullish = bar.close >= bar.open;
+    const points = bullish
+        ? [bar.open, bar.low, bar.high, bar.close]
+        : [bar.open, bar.high, bar.low, bar.close];
+    const scaled = Math.min(t, 1) * (points.length - 1);
+    const segment = Math.min(Math.floor(scaled), points.length - 2);
+    const frac = scaled - segment;
+    return points[segment] + (points[segment + 1] - points[segment]) * frac;
+}
+
+/**
+ * Replay recorded or generated bars as if they were forming live. Each bar
+ * is emitted as a series of partial updates, then once more as closed.
+ * `loadBars(from)` is asked for more bars starting at `from` whenever the
+ * queue runs dry; an empty result ends the replay, and so do repeated
+ * failures, after backing off between attempts.
+ */
+export function replayBars(
+    loadBars: (from: number) => Promise<Candle[]>,
+    start: number,
+    onUpdate: CandleUpdateListener,
+    onError: (error: Error) => void,
+    { tickIntervalMs, ticksPerBar }: ReplayOptions
+): () => void {
+    let queue: Candle[] = [];
+    let cursor = start;
+    let tick = 0;
+    let high = -Infinity;
+    let low = Infinity;
+    let loading = false;
+    let finished = false;
+    let failures = 0;
+    let retryAt = 0;
+
+    const timer = setInterval(() => {
+        if (finished || loading || Date.now() < retryAt) return;
+
+        if (queue.length === 0) {
+            loading = true;
+            loadBars(cursor)
+                .then((bars) => {
+                    failures = 0;
+                    queue = bars.filter((b) => b.time >= cursor);
+                    if (queue.length === 0) {
+                        finished = true;
+                        clearInterval(timer);
+                    }
+                })
+                .catch((error) => {
+                    failures++;
+                    if (failures < MAX_LOAD_FAILURES) {
+                        retryAt = Date.now() + RETRY_BASE_MS * 2 ** (failures - 1);
+                        return;
+                    }
+                    finished = true;
+                    clearInterval(timer);
+                    onError(error as Error);
+                })
+                .finally(() => {
+                    loading = false;
+                });
+            return;
+        }
+
+        const bar = queue[0];
+        tick++;
+
+        if (tick >= ticksPerBar) {
+            onUpdate({ candle: bar, closed: true });
+            queue.shift();
+            cursor = bar.time + 1;
+            tick = 0;
+            high = -Infinity;
+            low = Infinity;
+            return;
+        }
+
+        const price = pathPrice(bar, tick / ticksPerBar);
+        high = Math.max(high, bar.open, price);
+        low = Math.min(low, bar.open, price);
+        onUpdate({
+            candle: {
+                time: bar.time,
+                open: bar.open,
+                high,
+                low,
+                close: price,
+                volume: bar.volume !== undefined ? (bar.volume * tick) / ticksPerBar : undefined,
+            },
+            closed: false,
+        });
+    }, tickIntervalMs);
+
+    return () => {
+        finished = true;
+        clearInterval(timer);
+    };
+}
@@ -0,0 +1,96 @@
+import { Candle } from "@/lib/schema/chartActions";
+import { ParsedTimeframe, Timeframe, parseTimeframe } from "@/lib/timeframes";
+
+// Weeks start on Monday (1970-01-05), matching exchange weekly candles
+const WEEK_OFFSET = 4 * 86400;
+
+/**
+ * Start time of the bucket of `timeframe` that contains `time`
+ */
+export function bucketStart(time: number, timeframe: Timeframe): number {
+    const parsed = parseTimeframe(timeframe);
+    if (!parsed) return time;
+
+    if (parsed.unit === "M") {
+        const date = new Date(time * 1000);
+        const monthIndex = date.getUTCFullYear() * 12 + date.getUTCMonth();
+        const bucket = Math.floor(monthIndex / parsed.count) * parsed.count;
+        return Date.UTC(Math.floor(bucket / 12), bucket % 12, 1) / 1000;
+    }
+
+    const offset = parsed.unit === "w" ? WEEK_OFFSET : 0;
+    return Math.floor((time - offset) / parsed.seconds) * parsed.seconds + offset;
+}
+
+/**
+ * Whether candles of `base` can be combined into whole `target` candles
+ */
+function canAggregate(base: ParsedTimeframe, target: ParsedTimeframe): boolean {
+    // Anything that divides a day also tiles weeks and calendar months
+    const dividesDay = base.unit !== "w" && base.unit !== "M" && 86400 % base.seconds === 0;
+
+    if (target.unit === "M") {
+        return (base.unit === "M" && target.count % base.count === 0) || dividesDay;
+    }
+    if (target.unit === "w") {
+        return (base.unit === "w" && target.count % base.count === 0) || dividesDay;
+    }
+    return base.unit !== "w" && base.unit !== "M" && target.seconds % base.seconds === 0;
+}
+
+/**
+ * Pick the coarsest of `available` timeframes that can build `target`,
+ * or null if none can
+ */
+export function findBaseTimeframe(target: Timeframe, available: Timeframe[]): Timeframe | null {
+    const parsedTarget = parseTimeframe(target);
+    if (!parsedTarget) return null;
+
+    let best: { id: Timeframe; seconds: number } | null = null;
+    for (const id of available) {
+        const parsed = parseTimeframe(id);
+        if (!parsed || parsed.seconds > parsedTarget.seconds) continue;
+        if (!canAggregate(parsed, parsedTarget)) continue;
+        if (!best || parsed.seconds > best.seconds) best = { id, seconds: parsed.seconds };
+    }
+    return best?.id ?? null;
+}
+
+/**
+ * Merge a bucket's candles into one OHLCV candle
+ */
+export function aggregateCandles(time: number, candles: Candle[]): Candle {
+    const hasVolume = candles.some((c) => c.volume !== undefined);
+    return {
+        time,
+        open: candles[0].open,
+        high: Math.max(...candles.map((c) => c.high)),
+        low: Math.min(...candles.map((c) => c.low)),
+        close: candles[candles.length - 1].close,
+        volume: hasVolume ? candles.reduce((sum, c) => sum + (c.volume ?? 0), 0) : undefined,
+    };
+}
+
+/**
+ * Resample sorted candles into `timeframe` buckets. A leading bucket that
+ * starts before the first input candle is dropped, since its open would be wrong.
+ */
+export function resampleCandles(candles: Candle[], timeframe: Timeframe): Candle[] {
+    const buckets: { time: number; candles: Candle[] }[] = [];
+
+    for (const candle of candles) {
+        const time = bucketStart(candle.time, timeframe);
+        const current = buckets[buckets.length - 1];
+        if (current && current.time === time) {
+            current.candles.push(candle);
+        } else {
+            buckets.push({ time, candles: [candle] });
+        }
+    }
+
+    if (buckets.length > 0 && buckets[0].candles[0].time !== buckets[0].time) {
+        buckets.shift();
+    }
+
+    return buckets.map((b) => aggregateCandles(b.time, b.candles));
+}
@@ -0,0 +1,137 @@
+import { Candle } from "@/lib/schema/chartActions";
+import { TIMEFRAME_PRESETS, Timeframe, parseTimeframe, timeframeSeconds } from "@/lib/timeframes";
+import { aggregateCandles, bucketStart, findBaseTimeframe, resampleCandles } from "./resample";
+import { CandleQuery, MarketDataProvider, StreamQuery, selectCandleRange } from "./types";
+
+// Cap on base candles fetched to build one resampled response
+const MAX_BASE_CANDLES = 5000;
+
+/**
+ * Wrap a provider so it serves every registry timeframe, plus custom
+ * multiples like "2h" or "3d". Native timeframes pass straight through;
+ * others are aggregated from the coarsest native timeframe that fits.
+ */
+export function withResampling(provider: MarketDataProvider): MarketDataProvider {
+    const native = provider.supportedTimeframes();
+
+    const resolveBase = (timeframe: Timeframe): Timeframe => {
+        const base = findBaseTimeframe(timeframe, native);
+        if (!base) {
+            throw new Error(`Timeframe ${timeframe} cannot be built from ${provider.name} data`);
+        }
+        return base;
+    };
+
+    // Base candles per target candle; months are sized at 31 days to be safe
+    const baseRatio = (timeframe: Timeframe, base: Timeframe): number => {
+        const monthly = parseTimeframe(timeframe)?.unit === "M";
+        const span = timeframeSeconds(timeframe) * (monthly ? 31 / 30 : 1);
+        return Math.ceil(span / timeframeSeconds(base));
+    };
+
+    return {
+        name: provider.name,
+
+        supportedTimeframes() {
+            return [
+                ...native,
+                ...TIMEFRAME_PRESETS.map((t) => t.id).filter(
+                    (id) => !native.includes(id) && findBaseTimeframe(id, native) !== null
+                ),
+            ];
+        },
+
+        listSymbols() {
+            return provider.listSymbols();
+        },
+
+        async getCandles(query: CandleQuery) {
+            if (native.includes(query.timeframe)) {
+                return provider.getCandles(query);
+            }
+
+            const base = resolveBase(query.timeframe);
+            // One extra bucket covers a partial leading bucket that gets dropped
+            const baseLimit = Math.min(
+                MAX_BASE_CANDLES,
+                (query.limit + 1) * baseRatio(query.timeframe, base)
+            );
+            const from = query.from !== undefined ? bucketStart(query.from, query.timeframe) : undefined;
+
+            const baseCandles = await provider.getCandles({
+                ...query,
+                timeframe: base,
+                limit: baseLimit,
+                from,
+            });
+
+            return selectCandleRange(resampleCandles(baseCandles, query.timeframe), { ...query, from });
+        },
+
+        streamCandles(query: StreamQuery, onUpdate, onError) {
+            if (native.includes(query.timeframe)) {
+                return provider.streamCandles(query, onUpdate, onError);
+            }
+
+            const { symbol, timeframe } = query;
+            const base = resolveBase(timeframe);
+            const from = query.from !== undefined ? bucketStart(query.from, timeframe) : undefined;
+
+            // Base bars of the bucket currently forming, keyed by time
+            let bucketTime: number | null = null;
+            let bucketBars = new Map<number, Candle>();
+            let stopBase: (() => void) | null = null;
+            let stopped = false;
+
+            const aggregate = () =>
+                aggregateCandles(
+                    bucketTime!,
+                    [...bucketBars.values()].sort((a, b) => a.time - b.time)
+                );
+
+            const addBaseBar = (candle: Candle) => {
+                const time = bucketStart(candle.time, timeframe);
+                if (bucketTime !== null && time < bucketTime) return;
+
+                if (bucketTime !== null && time > bucketTime) {
+                    onUpdate({ candle: aggregate(), closed: true });
+                    bucketBars = new Map();
+                }
+                bucketTime = time;
+                bucketBars.set(candle.time, candle);
+            };
+
+            // Seed the forming bucket with the base bars it already has,
+            // otherwise its open/high/low would only reflect streamed ticks
+            const now = Math.floor(Date.now() / 1000);
+            const seed: Promise<Candle[]> =
+                from !== undefined
+                    ? Promise.resolve([])
+                    : provider.getCandles({
+                          symbol,
+                          timeframe: base,
+                          from: bucketStart(now, timeframe),
+                          limit: baseRatio(timeframe, base),
+                      });
+
+            seed.then((candles) => {
+                if (stopped) return;
+                candles.forEach(addBaseBar);
+
+                stopBase = provider.streamCandles(
+                    { symbol, timeframe: base, from },
+                    (update) => {
+                        addBaseBar(update.candle);
+                        onUpdate({ candle: aggregate(), closed: false });
+                    },
+                    onError
+                );
+            }).catch((error) => onError(error as Error));
+
+            return () => {
+                stopped = true;
+                stopBase?.();
+            };
+        },
+    };
+}
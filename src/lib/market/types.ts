@@ -0,0 +1,55 @@
+import { Candle, Timeframe } from "@/lib/schema/chartActions";
+
+// Parameters for a candle request, already normalised by the route.
+// from/to are unix seconds. With `from`, up to `limit` candles are returned
+// starting there; otherwise the last `limit` candles ending at `to` (or now).
+export interface CandleQuery {
+    symbol: string;
+    timeframe: Timeframe;
+    limit: number;
+    from?: number;
+    to?: number;
+}
+
+/**
+ * Apply a query's range and limit to an already sorted candle list
+ */
+export function selectCandleRange(candles: Candle[], { limit, from, to }: CandleQuery): Candle[] {
+    const inRange = candles.filter(
+        (c) => (from === undefined || c.time >= from) && (to === undefined || c.time <= to)
+    );
+    return from !== undefined ? inRange.slice(0, limit) : inRange.slice(-limit);
+}
+
+// Parameters for a live candle subscription. `from` (unix seconds) asks
+// replay-capable providers to replay history from that bar onwards.
+export interface StreamQuery {
+    symbol: string;
+    timeframe: Timeframe;
+    from?: number;
+}
+
+// A snapshot of a forming (or just closed) candle
+export interface CandleUpdate {
+    candle: Candle;
+    closed: boolean;
+}
+
+export type CandleUpdateListener = (update: CandleUpdate) => void;
+
+/**
+ * A source of OHLCV candles. The candles route only talks to this
+ * interface, so new exchanges or offline sources can be swapped in.
+ */
+export interface MarketDataProvider {
+    readonly name: string;
+    supportedTimeframes(): Timeframe[];
+    listSymbols(): Promise<string[]>;
+    getCandles(query: CandleQuery): Promise<Candle[]>;
+    // Push updates for the latest bar; returns an unsubscribe function
+    streamCandles(
+        query: StreamQuery,
+        onUpdate: CandleUpdateListener,
+        onError: (error: Error) => void
+    ): () => void;
+}
@@ -0,0 +1,279 @@
+import type { Candle, HighlightPoint } from "@/lib/schema/chartActions";
+
+/**
+ * Candlestick pattern recognition over Candle[]. Each detected pattern is
+ * reported on the candle that completes it.
+ */
+
+export const CANDLE_PATTERN_TYPES = [
+    "doji",
+    "hammer",
+    "shooting_star",
+    "bullish_engulfing",
+    "bearish_engulfing",
+    "bullish_harami",
+    "bearish_harami",
+    "morning_star",
+    "evening_star",
+    "three_white_soldiers",
+    "three_black_crows",
+    "inside_bar",
+] as const;
+
+export type CandlePatternType = (typeof CANDLE_PATTERN_TYPES)[number];
+
+export interface CandlePatternStyle {
+    label: string;
+    direction: "bullish" | "bearish" | "neutral";
+    // Number of candles that make up the pattern
+    length: number;
+    // Marker drawn on the completing candle
+    shape: "circle" | "square" | "arrowUp" | "arrowDown";
+    position: "aboveBar" | "belowBar" | "inBar";
+    color: string;
+}
+
+export const CANDLE_PATTERNS: Record<CandlePatternType, CandlePatternStyle> = {
+    doji: { label: "Doji", direction: "neutral", length: 1, shape: "circle", position: "aboveBar", color: "#94a3b8" },
+    hammer: {
+        label: "Hammer",
+        direction: "bullish",
+        length: 1,
+        shape: "arrowUp",
+        position: "belowBar",
+        color: "#22c55e",
+    },
+    shooting_star: {
+        label: "Shooting Star",
+        direction: "bearish",
+        length: 1,
+        shape: "arrowDown",
+        position: "aboveBar",
+        color: "#ef4444",
+    },
+    bullish_engulfing: {
+        label: "Bullish Engulfing",
+        direction: "bullish",
+        length: 2,
+        shape: "arrowUp",
+        position: "belowBar",
+        color: "#10b981",
+    },
+    bearish_engulfing: {
+        label: "Bearish Engulfing",
+        direction: "bearish",
+        length: 2,
+        shape: "arrowDown",
+        position: "aboveBar",
+        color: "#f43f5e",
+    },
+    bullish_harami: {
+        label: "Bullish Harami",
+        direction: "bullish",
+        length: 2,
+        shape: "circle",
+        position: "belowBar",
+        color: "#84cc16",
+    },
+    bearish_harami: {
+        label: "Bearish Harami",
+        direction: "bearish",
+        length: 2,
+        shape: "circle",
+        position: "aboveBar",
+        color: "#f97316",
+    },
+    morning_star: {
+        label: "Morning Star",
+        direction: "bullish",
+        length: 3,
+        shape: "arrowUp",
+        position: "belowBar",
+        color: "#06b6d4",
+    },
+    evening_star: {
+        label: "Evening Star",
+        direction: "bearish",
+        length: 3,
+        shape: "arrowDown",
+        position: "aboveBar",
+        color: "#a855f7",
+    },
+    three_white_soldiers: {
+        label: "Three White Soldiers",
+        direction: "bullish",
+        length: 3,
+        shape: "square",
+        position: "belowBar",
+        color: "#14b8a6",
+    },
+    three_black_crows: {
+        label: "Three Black Crows",
+        direction: "bearish",
+        length: 3,
+        shape: "square",
+        position: "aboveBar",
+        color: "#e11d48",
+    },
+    inside_bar: {
+        label: "Inside Bar",
+        direction: "neutral",
+        length: 2,
+        shape: "square",
+        position: "inBar",
+        color: "#eab308",
+    },
+};
+
+export interface CandlePatternHit {
+    time: number;
+    // Time of the first candle of a multi-candle pattern
+    startTime: number;
+    pattern: CandlePatternType;
+    label: string;
+    direction: CandlePatternStyle["direction"];
+    price: number;
+}
+
+// Bars used to judge the prior trend and what counts as a "long" body
+const TREND_LOOKBACK = 5;
+const BODY_LOOKBACK = 10;
+
+const body = (c: Candle) => Math.abs(c.close - c.open);
+const range = (c: Candle) => c.high - c.low;
+const upperWick = (c: Candle) => c.high - Math.max(c.open, c.close);
+const lowerWick = (c: Candle) => Math.min(c.open, c.close) - c.low;
+const isBullish = (c: Candle) => c.close > c.open;
+const isBearish = (c: Candle) => c.close < c.open;
+const midpoint = (c: Candle) => (c.open + c.close) / 2;
+
+/**
+ * Detect candlestick patterns. Pass `patterns` to only look for some of them.
+ */
+export function detectCandlePatterns(
+    candles: Candle[],
+    patterns: readonly CandlePatternType[] = CANDLE_PATTERN_TYPES
+): CandlePatternHit[] {
+    const wanted = new Set(patterns);
+    const hits: CandlePatternHit[] = [];
+
+    for (let i = 0; i < candles.length; i++) {
+        const c = candles[i];
+        const prev = candles[i - 1];
+        const first = candles[i - 2];
+
+        // Average body of the preceding candles, to tell long bodies from small ones
+        const recent = candles.slice(Math.max(0, i - BODY_LOOKBACK), i);
+        const avgBody = recent.length > 0 ? recent.reduce((sum, r) => sum + body(r), 0) / recent.length : body(c);
+        const isLong = (x: Candle) => body(x) >= avgBody;
+        const isSmall = (x: Candle) => body(x) <= avgBody * 0.5;
+
+        // Prior trend from the close TREND_LOOKBACK bars before the pattern
+        const trendBase = candles[i - TREND_LOOKBACK];
+        const downtrend = trendBase !== undefined && prev !== undefined && prev.close < trendBase.close;
+        const uptrend = trendBase !== undefined && prev !== undefined && prev.close > trendBase.close;
+
+        const add = (pattern: CandlePatternType) => {
+            if (!wanted.has(pattern)) return;
+            const style = CANDLE_PATTERNS[pattern];
+            hits.push({
+                time: c.time,
+                startTime: candles[i - style.length + 1].time,
+                pattern,
+                label: style.label,
+                direction: style.direction,
+                price: style.position === "belowBar" ? c.low : c.high,
+            });
+        };
+
+        // Single-candle patterns
+        if (range(c) > 0 && body(c) <= range(c) * 0.1) {
+            add("doji");
+        } else if (body(c) > 0) {
+            if (lowerWick(c) >= body(c) * 2 && upperWick(c) <= body(c) * 0.5 && downtrend) add("hammer");
+            if (upperWick(c) >= body(c) * 2 && lowerWick(c) <= body(c) * 0.5 && uptrend) add("shooting_star");
+        }
+
+        if (!prev) continue;
+
+        // Two-candle patterns
+        if (isBearish(prev) && isBullish(c) && c.open <= prev.close && c.close >= prev.open && body(c) > body(prev)) {
+            add("bullish_engulfing");
+        }
+        if (isBullish(prev) && isBearish(c) && c.open >= prev.close && c.close <= prev.open && body(c) > body(prev)) {
+            add("bearish_engulfing");
+        }
+        // Harami bodies sit inside the previous body; 24/7 markets rarely gap, so
+        // an open equal to the previous close still counts
+        const insidePrevBody =
+            Math.min(c.open, c.close) >= Math.min(prev.open, prev.close) &&
+            Math.max(c.open, c.close) <= Math.max(prev.open, prev.close) &&
+            body(c) < body(prev);
+        if (isBearish(prev) && isLong(prev) && isBullish(c) && insidePrevBody) {
+            add("bullish_harami");
+        }
+        if (isBullish(prev) && isLong(prev) && isBearish(c) && insidePrevBody) {
+            add("bearish_harami");
+        }
+        if (c.high < prev.high && c.low > prev.low) {
+            add("inside_bar");
+        }
+
+        if (!first) continue;
+
+        // Three-candle patterns
+        if (
+            isBearish(first) &&
+            isLong(first) &&
+            isSmall(prev) &&
+            Math.max(prev.open, prev.close) <= first.close &&
+            isBullish(c) &&
+            c.close > midpoint(first)
+        ) {
+            add("morning_star");
+        }
+        if (
+            isBullish(first) &&
+            isLong(first) &&
+            isSmall(prev) &&
+            Math.min(prev.open, prev.close) >= first.close &&
+            isBearish(c) &&
+            c.close < midpoint(first)
+        ) {
+            add("evening_star");
+        }
+
+        const trio = [first, prev, c];
+        const isSoldier = (x: Candle, before?: Candle) =>
+            isBullish(x) &&
+            upperWick(x) <= body(x) * 0.5 &&
+            (!before || (x.close > before.close && x.open >= before.open && x.open <= before.close));
+        const isCrow = (x: Candle, before?: Candle) =>
+            isBearish(x) &&
+            lowerWick(x) <= body(x) * 0.5 &&
+            (!before || (x.close < before.close && x.open <= before.open && x.open >= before.close));
+
+        if (trio.every((x, j) => isSoldier(x, trio[j - 1]) && isLong(x))) {
+            add("three_white_soldiers");
+        }
+        if (trio.every((x, j) => isCrow(x, trio[j - 1]) && isLong(x))) {
+            add("three_black_crows");
+        }
+    }
+
+    return hits;
+}
+
+/**
+ * Pattern hits as HIGHLIGHT_POINTS points; the pattern field keeps the
+ * per-pattern marker style
+ */
+export function patternHighlights(hits: CandlePatternHit[]): HighlightPoint[] {
+    return hits.map((hit) => ({
+        time: hit.time,
+        price: hit.price,
+        pane: "price",
+        label: hit.label,
+        pattern: hit.pattern,
+    }));
+}
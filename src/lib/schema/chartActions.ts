@@ -1,13 +1,20 @@
 import { z } from "zod";
+import { Timeframe as TimeframeId, isTimeframe } from "@/lib/timeframes";
+import { INDICATOR_TYPES, resolveIndicatorParams } from "@/lib/indicatorRegistry";
+import { CANDLE_PATTERN_TYPES } from "@/lib/patterns";
+import type { DrawingType } from "@/lib/drawings";
 
-// Timeframe options
-export const TimeframeSchema = z.enum(["1h", "4h", "1d"]);
+// Timeframe options: registry presets or custom multiples (see lib/timeframes)
+export const TimeframeSchema = z.custom<TimeframeId>(isTimeframe, { message: "Invalid timeframe" });
 export type Timeframe = z.infer<typeof TimeframeSchema>;
 
-// Indicator types
-export const IndicatorTypeSchema = z.enum(["MACD", "RSI", "EMA"]);
+// Indicator types, generated from the indicator registry
+export const IndicatorTypeSchema = z.enum(INDICATOR_TYPES);
 export type IndicatorType = z.infer<typeof IndicatorTypeSchema>;
 
+// Candlestick pattern types (see lib/patterns)
+export const CandlePatternTypeSchema = z.enum(CANDLE_PATTERN_TYPES);
+
 // Pane types
 export const PaneTypeSchema = z.enum(["price", "indicator"]);
 export type PaneType = z.infer<typeof PaneTypeSchema>;
@@ -31,23 +38,62 @@ export const LoadCandlesActionSchema = z.object({
     to: z.number().optional(),
 });
 
-export const AddIndicatorActionSchema = z.object({
-    type: z.literal("ADD_INDICATOR"),
-    indicator: IndicatorTypeSchema,
-    params: z.record(z.string(), z.number()).optional(),
-});
+// Check indicator params against the registry entry's params schema
+function refineIndicatorParams(
+    action: { indicator: IndicatorType; params?: Record<string, number> },
+    ctx: z.RefinementCtx
+) {
+    if (action.params && !resolveIndicatorParams(action.indicator, action.params).success) {
+        ctx.addIssue({
+            code: "custom",
+            message: `Invalid params for ${action.indicator}`,
+            path: ["params"],
+        });
+    }
+}
 
-export const UpdateIndicatorParamsActionSchema = z.object({
-    type: z.literal("UPDATE_INDICATOR_PARAMS"),
-    indicator: IndicatorTypeSchema,
-    params: z.record(z.string(), z.number()),
-});
+// Indicator instances are addressed by id; without one, ADD_INDICATOR derives
+// an id from the params (e.g. "ema-50") and updates hit the latest instance
+export const AddIndicatorActionSchema = z
+    .object({
+        type: z.literal("ADD_INDICATOR"),
+        indicator: IndicatorTypeSchema,
+        id: z.string().optional(),
+        params: z.record(z.string(), z.number()).optional(),
+    })
+    .superRefine(refineIndicatorParams);
+
+export const UpdateIndicatorParamsActionSchema = z
+    .object({
+        type: z.literal("UPDATE_INDICATOR_PARAMS"),
+        indicator: IndicatorTypeSchema,
+        id: z.string().optional(),
+        params: z.record(z.string(), z.number()),
+    })
+    .superRefine(refineIndicatorParams);
+
+// Removes one instance by id, or every instance of an indicator type
+export const RemoveIndicatorActionSchema = z
+    .object({
+        type: z.literal("REMOVE_INDICATOR"),
+        id: z.string().optional(),
+        indicator: IndicatorTypeSchema.optional(),
+    })
+    .refine((action) => action.id !== undefined || action.indicator !== undefined, {
+        message: "REMOVE_INDICATOR needs an id or an indicator type",
+    });
 
+// On the indicator pane, `indicator` names the instance id or indicator type
+// to mark (default: the first oscillator on the chart); `price` is then the
+// indicator value
 export const HighlightPointSchema = z.object({
     time: z.number(),
     price: z.number().optional(),
     pane: PaneTypeSchema.optional(),
+    indicator: z.string().optional(),
     label: z.string().optional(),
+    // Draw with that candlestick pattern's marker style
+    pattern: CandlePatternTypeSchema.optional(),
 });
 
 export const HighlightPointsActionSchema = z.object({
@@ -55,14 +101,17 @@ export const HighlightPointsActionSchema = z.object({
     points: z.array(HighlightPointSchema),
 });
 
+export const HighlightRegionSchema = z.object({
+    fromTime: z.number(),
+    toTime: z.number(),
+    pane: PaneTypeSchema.optional(),
+    indicator: z.string().optional(),
+    label: z.string().optional(),
+});
+
 export const HighlightRegionActionSchema = z.object({
     type: z.literal("HIGHLIGHT_REGION"),
-    region: z.object({
-        fromTime: z.number(),
-        toTime: z.number(),
-        pane: PaneTypeSchema.optional(),
-        label: z.string().optional(),
-    }),
+    region: HighlightRegionSchema,
 });
 
 export const AddAnnotationActionSchema = z.object({
@@ -72,6 +121,7 @@ export const AddAnnotationActionSchema = z.object({
         price: z.number().optional(),
         text: z.string(),
         pane: PaneTypeSchema.optional(),
+        indicator: z.string().optional(),
     }),
 });
 
@@ -83,6 +133,68 @@ export const FocusRangeActionSchema = z.object({
     }),
 });
 
+// Overlay support/resistance zones and swing structure labels computed from
+// the loaded candles; `false` hides that part
+export const ShowMarketStructureActionSchema = z.object({
+    type: z.literal("SHOW_MARKET_STRUCTURE"),
+    levels: z.boolean().optional(),
+    swings: z.boolean().optional(),
+    pivotLookback: z.number().int().positive().optional(),
+    maxZones: z.number().int().positive().optional(),
+});
+
+// Drawings are anchored to time/price so they stay put through zoom and scroll
+export const DrawingPointSchema = z.object({
+    time: z.number(),
+    price: z.number(),
+});
+
+const drawingStyle = {
+    label: z.string().optional(),
+    color: z.string().optional(),
+};
+
+export const DrawTrendlineActionSchema = z.object({
+    type: z.literal("DRAW_TRENDLINE"),
+    start: DrawingPointSchema,
+    end: DrawingPointSchema,
+    ...drawingStyle,
+});
+
+// A trendline from start through end, extended to the edge of the chart
+export const DrawRayActionSchema = z.object({
+    type: z.literal("DRAW_RAY"),
+    start: DrawingPointSchema,
+    end: DrawingPointSchema,
+    ...drawingStyle,
+});
+
+export const DrawHorizontalLineActionSchema = z.object({
+    type: z.literal("DRAW_HORIZONTAL_LINE"),
+    price: z.number(),
+    ...drawingStyle,
+});
+
+// Opposite corners
+export const DrawRectangleActionSchema = z.object({
+    type: z.literal("DRAW_RECTANGLE"),
+    start: DrawingPointSchema,
+    end: DrawingPointSchema,
+    ...drawingStyle,
+});
+
+// Retracement of the move from start (100%) to end (0%)
+export const DrawFibonacciActionSchema = z.object({
+    type: z.literal("DRAW_FIBONACCI"),
+    start: DrawingPointSchema,
+    end: DrawingPointSchema,
+    ...drawingStyle,
+});
+
+export const ClearDrawingsActionSchema = z.object({
+    type: z.literal("CLEAR_DRAWINGS"),
+});
+
 export const ClearHighlightsActionSchema = z.object({
     type: z.literal("CLEAR_HIGHLIGHTS"),
 });
@@ -98,10 +210,18 @@ export const ChartActionSchema = z.discriminatedUnion("type", [
     LoadCandlesActionSchema,
     AddIndicatorActionSchema,
     UpdateIndicatorParamsActionSchema,
+    RemoveIndicatorActionSchema,
     HighlightPointsActionSchema,
     HighlightRegionActionSchema,
     AddAnnotationActionSchema,
     FocusRangeActionSchema,
+    ShowMarketStructureActionSchema,
+    DrawTrendlineActionSchema,
+    DrawRayActionSchema,
+    DrawHorizontalLineActionSchema,
+    DrawRectangleActionSchema,
+    DrawFibonacciActionSchema,
+    ClearDrawingsActionSchema,
     ClearHighlightsActionSchema,
     ClearIndicatorsActionSchema,
 ]);
@@ -141,6 +261,8 @@ export type MarketDataResponse = z.infer<typeof MarketDataResponseSchema>;
 
 // Indicator configuration
 export interface IndicatorConfig {
+    // Stable instance id, so several instances of one indicator can coexist
+    id: string;
     name: IndicatorType;
     params: Record<string, number>;
     visible: boolean;
@@ -151,21 +273,63 @@ export interface ChartContextState {
     symbol: string;
     timeframe: Timeframe;
     candles: Candle[];
+    // Window requested by the last full load (unix seconds), null for the latest candles
+    candleRange: { from?: number; to?: number } | null;
     indicators: IndicatorConfig[];
     visibleFrom: number | null;
     visibleTo: number | null;
     highlights: HighlightPoint[];
+    regions: HighlightRegion[];
     annotations: Annotation[];
     isLoading: boolean;
+    isLive: boolean;
+    // Mark detected candlestick patterns on the price pane
+    showPatterns: boolean;
+    // Support/resistance and swing structure overlay, null when hidden
+    marketStructure: MarketStructureConfig | null;
+    drawings: Drawing[];
+    // Drawing tool armed in the toolbar, null when not drawing
+    drawingTool: DrawingType | null;
+}
+
+export interface MarketStructureConfig {
+    levels: boolean;
+    swings: boolean;
+    pivotLookback: number;
+    maxZones: number;
 }
 
 export type HighlightPoint = z.infer<typeof HighlightPointSchema>;
+export type HighlightRegion = z.infer<typeof HighlightRegionSchema>;
+export type DrawingPoint = z.infer<typeof DrawingPointSchema>;
+
+// A drawing on the price pane; horizontal lines use only the price of their single point
+export interface Drawing {
+    id: string;
+    type: DrawingType;
+    points: DrawingPoint[];
+    label?: string;
+    color?: string;
+}
 
 export interface Annotation {
     time: number;
     price?: number;
     text: string;
     pane?: PaneType;
+    // Instance id or indicator type whose pane the annotation belongs to
+    indicator?: string;
+}
+
+// A model-emitted chart action that was adjusted to fit the chart, or dropped.
+// "corrected" marks a rejected action the model resent in a fixed form.
+export interface ActionIssue {
+    // Action type, or "unknown" when the action could not be read
+    action: string;
+    status: "repaired" | "rejected" | "corrected";
+    message: string;
+    // Title of the lesson option the action belongs to
+    lesson?: string;
 }
 
 // Chat types
@@ -174,6 +338,7 @@ export interface ChatMessage {
     role: "user" | "assistant";
     content: string;
     lessonOptions?: LessonOption[];
+    actionIssues?: ActionIssue[];
     timestamp: Date;
 }
 
@@ -184,8 +349,15 @@ export interface ChatRequest {
         timeframe: string;
         visibleFrom: number | null;
         visibleTo: number | null;
-        indicators: { name: string; params: Record<string, number> }[];
+        loadedFrom?: number | null;
+        loadedTo?: number | null;
+        highlights?: HighlightPoint[];
+        regions?: HighlightRegion[];
+        annotations?: Annotation[];
+        indicators: { id: string; name: string; params: Record<string, number> }[];
     };
+    // Model selection; defaults come from LLM_PROVIDER and <PROVIDER>_MODEL
+    llm?: { provider?: string; model?: string; temperature?: number };
 }
 
 export interface ChatResponse {
@@ -195,4 +367,5 @@ export interface ChatResponse {
     };
     lessonOptions?: LessonOption[];
     actions?: ChartAction[];
+    actionIssues?: ActionIssue[];
 }
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ChatSession, ChatSessionSchema, SessionIdSchema, SessionStore, newestFirst, summarize } from "./types";
+
+// Server-side session directory, one JSON file per session
+export const SESSIONS_DIR = process.env.SESSIONS_DIR || path.join(process.cwd(), "data", "sessions");
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === "ENOENT";
+
+/**
+ * Sessions stored as JSON files on the server, behind /api/sessions
+ */
+export function createFileSessionStore(dir: string = SESSIONS_DIR): SessionStore {
+    // Ids are checked before they become paths
+    const fileFor = (id: string) => path.join(dir, `${SessionIdSchema.parse(id)}.json`);
+
+    const read = async (file: string): Promise<ChatSession | null> => {
+        try {
+            const parsed = ChatSessionSchema.safeParse(JSON.parse(await fs.readFile(file, "utf8")));
+            if (parsed.success) return parsed.data;
+            console.warn(`[Sessions] Skipping invalid session file ${file}`);
+            return null;
+        } catch (error) {
+            if (!isMissing(error)) console.warn(`[Sessions] Failed to read ${file}:`, error);
+            return null;
+        }
+    };
+
+    return {
+        name: "file",
+
+        async list() {
+            let files: string[];
+            try {
+                files = (await fs.readdir(dir)).filter((file) => file.endsWith(".json"));
+            } catch {
+                return [];
+            }
+            const sessions = await Promise.all(files.map((file) => read(path.join(dir, file))));
+            return sessions.flatMap((session) => (session ? [summarize(session)] : [])).sort(newestFirst);
+        },
+
+        async get(id) {
+            return read(fileFor(id));
+        },
+
+        async save(session) {
+            const file = fileFor(session.id);
+            await fs.mkdir(dir, { recursive: true });
+            // Write then rename, so a crash never leaves half a session behind
+            const temp = `${file}.${process.pid}.tmp`;
+            await fs.writeFile(temp, JSON.stringify(session, null, 4) + "\n");
+            await fs.rename(temp, file);
+        },
+
+        async remove(id) {
+            try {
+                await fs.unlink(fileFor(id));
+                return true;
+            } catch (error) {
+                if (isMissing(error)) return false;
+                throw error;
+            }
+        },
+    };
+}
@@ -0,0 +1,60 @@
+import type { ChatMessage } from "@/lib/schema/chartActions";
+import { createLocalSessionStore } from "./localStore";
+import { createRemoteSessionStore } from "./remoteStore";
+import { SessionStore, StoredMessage } from "./types";
+
+export type { ChatSession, SessionStore, SessionSummary } from "./types";
+
+// Session titles are cut to this many characters
+const TITLE_LENGTH = 60;
+
+// Session to resume after a reload; kept in this browser whichever store holds the sessions
+const CURRENT_SESSION_KEY = "tradecraft:current-session";
+
+/**
+ * Store the chat saves sessions to: NEXT_PUBLIC_SESSION_STORE "server" keeps
+ * them on the server (see /api/sessions), anything else in this browser.
+ * The server store lives in fileStore.ts and is only imported by the routes.
+ */
+export function getSessionStore(name: string | undefined = process.env.NEXT_PUBLIC_SESSION_STORE): SessionStore {
+    return name === "server" ? createRemoteSessionStore() : createLocalSessionStore();
+}
+
+export function lastSessionId(): string | null {
+    try {
+        return localStorage.getItem(CURRENT_SESSION_KEY);
+    } catch {
+        return null;
+    }
+}
+
+// Null forgets it, so the next reload starts a new session
+export function rememberSession(id: string | null): void {
+    try {
+        if (id) localStorage.setItem(CURRENT_SESSION_KEY, id);
+        else localStorage.removeItem(CURRENT_SESSION_KEY);
+    } catch {
+        // Storage disabled; sessions just don't resume after a reload
+    }
+}
+
+export function createSessionId(): string {
+    return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Default title: the learner's first question
+ */
+export function sessionTitle(messages: ChatMessage[]): string {
+    const question = messages.find((m) => m.role === "user")?.content.trim().replace(/\s+/g, " ");
+    if (!question) return "New lesson";
+    return question.length > TITLE_LENGTH ? `${question.slice(0, TITLE_LENGTH - 1)}…` : question;
+}
+
+export function toStoredMessages(messages: ChatMessage[]): StoredMessage[] {
+    return messages.map((m) => ({ ...m, timestamp: m.timestamp.toISOString() }));
+}
+
+export function fromStoredMessages(messages: StoredMessage[]): ChatMessage[] {
+    return messages.map((m) => ({ ...m, timestamp: new Date(m.timestamp) }));
+}
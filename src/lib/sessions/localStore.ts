@@ -0,0 +1,52 @@
+import { ChatSession, SessionStore, SessionSummary, newestFirst, summarize } from "./types";
+
+// Summaries live under one key so listing doesn't parse every conversation
+const INDEX_KEY = "tradecraft:sessions";
+const sessionKey = (id: string) => `tradecraft:session:${id}`;
+
+function readJson<T>(key: string): T | null {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? (JSON.parse(raw) as T) : null;
+    } catch (error) {
+        console.warn(`[Sessions] Ignoring unreadable ${key}:`, error);
+        return null;
+    }
+}
+
+function readIndex(): SessionSummary[] {
+    const index = readJson<SessionSummary[]>(INDEX_KEY);
+    return Array.isArray(index) ? index : [];
+}
+
+/**
+ * Sessions kept in this browser's localStorage. Only usable client-side.
+ */
+export function createLocalSessionStore(): SessionStore {
+    return {
+        name: "local",
+
+        async list() {
+            return readIndex().sort(newestFirst);
+        },
+
+        async get(id) {
+            return readJson<ChatSession>(sessionKey(id));
+        },
+
+        async save(session) {
+            // Can throw when storage is full; the session then stays unsaved
+            localStorage.setItem(sessionKey(session.id), JSON.stringify(session));
+            const index = readIndex().filter((s) => s.id !== session.id);
+            localStorage.setItem(INDEX_KEY, JSON.stringify([...index, summarize(session)]));
+        },
+
+        async remove(id) {
+            const index = readIndex();
+            const existed = index.some((s) => s.id === id) || localStorage.getItem(sessionKey(id)) !== null;
+            localStorage.removeItem(sessionKey(id));
+            localStorage.setItem(INDEX_KEY, JSON.stringify(index.filter((s) => s.id !== id)));
+            return existed;
+        },
+    };
+}
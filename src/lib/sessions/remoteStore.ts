@@ -0,0 +1,48 @@
+import { ChatSession, SessionStore, SessionSummary } from "./types";
+
+async function failure(response: Response, what: string): Promise<Error> {
+    const body = await response.json().catch(() => null);
+    return new Error(`Failed to ${what}: ${body?.details ?? body?.error ?? response.statusText}`);
+}
+
+/**
+ * Sessions saved on the server through the /api/sessions routes
+ */
+export function createRemoteSessionStore(baseUrl: string = "/api/sessions"): SessionStore {
+    const sessionUrl = (id: string) => `${baseUrl}/${encodeURIComponent(id)}`;
+
+    return {
+        name: "server",
+
+        async list() {
+            const response = await fetch(baseUrl, { cache: "no-store" });
+            if (!response.ok) throw await failure(response, "list sessions");
+            const data: { sessions: SessionSummary[] } = await response.json();
+            return data.sessions;
+        },
+
+        async get(id) {
+            const response = await fetch(sessionUrl(id), { cache: "no-store" });
+            if (response.status === 404) return null;
+            if (!response.ok) throw await failure(response, "load session");
+            const data: { session: ChatSession } = await response.json();
+            return data.session;
+        },
+
+        async save(session) {
+            const response = await fetch(sessionUrl(session.id), {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(session),
+            });
+            if (!response.ok) throw await failure(response, "save session");
+        },
+
+        async remove(id) {
+            const response = await fetch(sessionUrl(id), { method: "DELETE" });
+            if (response.status === 404) return false;
+            if (!response.ok) throw await failure(response, "delete session");
+            return true;
+        },
+    };
+}
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import type { ChatMessage } from "@/lib/schema/chartActions";
+
+// Session ids double as file names in the server store
+export const SessionIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/);
+
+// A chat message as stored; timestamps become ISO strings
+export type StoredMessage = Omit<ChatMessage, "timestamp"> & { timestamp: string };
+
+/**
+ * A saved conversation and the chart it left behind. The chart is a share
+ * link code (see lib/chartLink), so saved sessions survive schema changes the
+ * same way links do.
+ */
+export interface ChatSession {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    // Session this one was forked from
+    forkedFrom?: string;
+    messages: StoredMessage[];
+    chart: string | null;
+}
+
+export type SessionSummary = Pick<ChatSession, "id" | "title" | "createdAt" | "updatedAt" | "forkedFrom"> & {
+    messageCount: number;
+};
+
+// Accepts sessions written by older versions; message fields are checked by the chat, not here
+export const ChatSessionSchema = z.object({
+    id: SessionIdSchema,
+    title: z.string().max(200),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    forkedFrom: z.string().optional(),
+    messages: z.array(
+        z.looseObject({
+            id: z.string(),
+            role: z.enum(["user", "assistant"]),
+            content: z.string(),
+            timestamp: z.string(),
+        })
+    ),
+    chart: z.string().nullable(),
+});
+
+/**
+ * Where sessions are kept. The chat only talks to this interface; the
+ * browser's localStorage is the default and /api/sessions puts them on the
+ * server instead.
+ */
+export interface SessionStore {
+    readonly name: string;
+    // Newest first
+    list(): Promise<SessionSummary[]>;
+    get(id: string): Promise<ChatSession | null>;
+    save(session: ChatSession): Promise<void>;
+    // False when there was no such session
+    remove(id: string): Promise<boolean>;
+}
+
+export function summarize(session: ChatSession): SessionSummary {
+    const { id, title, createdAt, updatedAt, forkedFrom, messages } = session;
+    return { id, title, createdAt, updatedAt, forkedFrom, messageCount: messages.length };
+}
+
+export function newestFirst(a: SessionSummary, b: SessionSummary): number {
+    return b.updatedAt.localeCompare(a.updatedAt);
+}
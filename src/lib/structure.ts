@@ -0,0 +1,123 @@
+import type { Candle } from "@/lib/schema/chartActions";
+import { calculateATR, findSwingPivots, SwingPivot } from "@/lib/indicators";
+
+/**
+ * Support/resistance zones and market structure (HH/HL/LH/LL) derived from
+ * swing pivots in the loaded candles.
+ */
+
+export interface SupportResistanceZone {
+    type: "support" | "resistance";
+    // Centre of the zone, and its bounds from the clustered swings
+    price: number;
+    low: number;
+    high: number;
+    // Swing highs/lows that formed the zone
+    touches: number;
+    firstTime: number;
+    lastTime: number;
+}
+
+export interface StructurePoint {
+    time: number;
+    price: number;
+    type: "high" | "low";
+    label: "HH" | "HL" | "LH" | "LL";
+}
+
+export interface SupportResistanceOptions {
+    // Bars either side of a swing (see findSwingPivots)
+    pivotLookback?: number;
+    // Swings within this many ATRs of each other join one zone
+    atrTolerance?: number;
+    minTouches?: number;
+    maxZones?: number;
+}
+
+/**
+ * Find horizontal support and resistance zones by clustering swing highs and
+ * lows that sit close together. Zones below the last close are support,
+ * zones above are resistance. The strongest zones (most touches, then most
+ * recent) are kept.
+ */
+export function findSupportResistance(
+    candles: Candle[],
+    options: SupportResistanceOptions = {}
+): SupportResistanceZone[] {
+    const { pivotLookback = 5, atrTolerance = 0.5, minTouches = 2, maxZones = 6 } = options;
+    if (candles.length === 0) return [];
+
+    const highs = candles.map((c) => c.high);
+    const lows = candles.map((c) => c.low);
+    const closes = candles.map((c) => c.close);
+    const pivots = findSwingPivots(
+        highs,
+        lows,
+        candles.map((c) => c.time),
+        pivotLookback
+    ).sort((a, b) => a.value - b.value);
+
+    const atr = calculateATR(highs, lows, closes).filter((v): v is number => v !== null);
+    const lastClose = closes[closes.length - 1];
+    // Fall back to a fraction of price when there is not enough data for ATR
+    const tolerance = (atr[atr.length - 1] ?? lastClose * 0.01) * atrTolerance;
+
+    // Walk swings in price order, starting a new cluster at each gap wider than the tolerance
+    const clusters: SwingPivot[][] = [];
+    for (const pivot of pivots) {
+        const current = clusters[clusters.length - 1];
+        if (current && pivot.value - current[current.length - 1].value <= tolerance) {
+            current.push(pivot);
+        } else {
+            clusters.push([pivot]);
+        }
+    }
+
+    return clusters
+        .filter((cluster) => cluster.length >= minTouches)
+        .map((cluster): SupportResistanceZone => {
+            const price = cluster.reduce((sum, p) => sum + p.value, 0) / cluster.length;
+            const times = cluster.map((p) => p.time);
+            return {
+                type: price < lastClose ? "support" : "resistance",
+                price,
+                low: cluster[0].value,
+                high: cluster[cluster.length - 1].value,
+                touches: cluster.length,
+                firstTime: Math.min(...times),
+                lastTime: Math.max(...times),
+            };
+        })
+        .sort((a, b) => b.touches - a.touches || b.lastTime - a.lastTime)
+        .slice(0, maxZones)
+        .sort((a, b) => b.price - a.price);
+}
+
+/**
+ * Label swing highs and lows against the previous swing of the same kind:
+ * higher high / lower high and higher low / lower low. The first swing of
+ * each kind has nothing to compare with and is left out.
+ */
+export function labelMarketStructure(candles: Candle[], pivotLookback: number = 5): StructurePoint[] {
+    const pivots = findSwingPivots(
+        candles.map((c) => c.high),
+        candles.map((c) => c.low),
+        candles.map((c) => c.time),
+        pivotLookback
+    );
+
+    const points: StructurePoint[] = [];
+    const last: { high?: SwingPivot; low?: SwingPivot } = {};
+
+    for (const pivot of pivots) {
+        const previous = last[pivot.type];
+        last[pivot.type] = pivot;
+        if (!previous) continue;
+
+        const higher = pivot.value > previous.value;
+        const label = pivot.type === "high" ? (higher ? "HH" : "LH") : higher ? "HL" : "LL";
+        points.push({ time: pivot.time, price: pivot.value, type: pivot.type, label });
+    }
+
+    return points;
+}
@@ -0,0 +1,89 @@
+/**
+ * Timeframe registry. Every place that lists or validates timeframes (the
+ * action schema, the candles route, the LLM tool definition and the chart
+ * toolbar) reads from here so they cannot drift apart.
+ */
+
+export type TimeframeUnit = "m" | "h" | "d" | "w" | "M";
+
+// A count followed by a unit, e.g. "15m", "4h", "3d", "1M"
+export type Timeframe = `${number}${TimeframeUnit}`;
+
+export interface TimeframeDefinition {
+    id: Timeframe;
+    label: string;
+}
+
+// Timeframes offered in the UI and suggested to the model
+export const TIMEFRAME_PRESETS: TimeframeDefinition[] = [
+    { id: "1m", label: "1 Minute" },
+    { id: "5m", label: "5 Minutes" },
+    { id: "15m", label: "15 Minutes" },
+    { id: "30m", label: "30 Minutes" },
+    { id: "1h", label: "1 Hour" },
+    { id: "4h", label: "4 Hours" },
+    { id: "1d", label: "1 Day" },
+    { id: "1w", label: "1 Week" },
+    { id: "1M", label: "1 Month" },
+];
+
+// Accepts presets and custom multiples such as "2h" or "3d"
+export const TIMEFRAME_PATTERN = /^([1-9]\d{0,2})(m|h|d|w|M)$/;
+
+// Nominal length of one unit; months are calendar-aligned when resampling
+const UNIT_SECONDS: Record<TimeframeUnit, number> = {
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 7 * 86400,
+    M: 30 * 86400,
+};
+
+const UNIT_LABELS: Record<TimeframeUnit, string> = {
+    m: "Minute",
+    h: "Hour",
+    d: "Day",
+    w: "Week",
+    M: "Month",
+};
+
+export interface ParsedTimeframe {
+    count: number;
+    unit: TimeframeUnit;
+    seconds: number;
+}
+
+export function parseTimeframe(value: string): ParsedTimeframe | null {
+    const match = TIMEFRAME_PATTERN.exec(value);
+    if (!match) return null;
+    const count = parseInt(match[1]);
+    const unit = match[2] as TimeframeUnit;
+    return { count, unit, seconds: count * UNIT_SECONDS[unit] };
+}
+
+export function isTimeframe(value: unknown): value is Timeframe {
+    return typeof value === "string" && parseTimeframe(value) !== null;
+}
+
+/**
+ * Nominal candle length in seconds (a month counts as 30 days)
+ */
+export function timeframeSeconds(timeframe: Timeframe): number {
+    return parseTimeframe(timeframe)?.seconds ?? UNIT_SECONDS.d;
+}
+
+/**
+ * Longest a single candle can span; calendar months run up to 31 days
+ */
+export function maxCandleSeconds(timeframe: Timeframe): number {
+    const parsed = parseTimeframe(timeframe);
+    return parsed?.unit === "M" ? parsed.count * 31 * UNIT_SECONDS.d : timeframeSeconds(timeframe);
+}
+
+export function timeframeLabel(timeframe: Timeframe): string {
+    const preset = TIMEFRAME_PRESETS.find((t) => t.id === timeframe);
+    if (preset) return preset.label;
+    const parsed = parseTimeframe(timeframe);
+    if (!parsed) return timeframe;
+    return `${parsed.count} ${UNIT_LABELS[parsed.unit]}${parsed.count === 1 ? "" : "s"}`;
+}